@@ -9,18 +9,25 @@ import { Layout } from "@/components/Layout";
 import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import Employees from "./pages/Employees";
+import EmployeeDetail from "./pages/EmployeeDetail";
 import Profile from "./pages/Profile";
 import Leaves from "./pages/Leaves";
 import Attendance from "./pages/Attendance";
+import Holidays from "./pages/Holidays";
+import Departments from "./pages/Departments";
+import OrgChart from "./pages/OrgChart";
+import People from "./pages/People";
 import NotFound from "./pages/NotFound";
+import { Permission } from "@/lib/permissions";
 
 const queryClient = new QueryClient();
 
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { user, loading } = useAuth();
+function ProtectedRoute({ children, permission }: { children: React.ReactNode; permission?: Permission }) {
+  const { user, loading, hasPermission } = useAuth();
   
   if (loading) return <div className="flex min-h-screen items-center justify-center"><div className="animate-spin h-8 w-8 border-b-2 border-primary rounded-full"></div></div>;
   if (!user) return <Navigate to="/auth" />;
+  if (permission && !hasPermission(permission)) return <Navigate to="/" />;
   
   return <Layout>{children}</Layout>;
 }
@@ -36,10 +43,15 @@ const App = () => (
             <Routes>
               <Route path="/auth" element={<Auth />} />
               <Route path="/" element={<ProtectedRoute><Dashboard /></ProtectedRoute>} />
-              <Route path="/employees" element={<ProtectedRoute><Employees /></ProtectedRoute>} />
+              <Route path="/employees" element={<ProtectedRoute permission="employee.view"><Employees /></ProtectedRoute>} />
+              <Route path="/employees/:id" element={<ProtectedRoute permission="employee.view"><EmployeeDetail /></ProtectedRoute>} />
+              <Route path="/people" element={<ProtectedRoute><People /></ProtectedRoute>} />
+              <Route path="/org-chart" element={<ProtectedRoute><OrgChart /></ProtectedRoute>} />
               <Route path="/profile" element={<ProtectedRoute><Profile /></ProtectedRoute>} />
               <Route path="/leaves" element={<ProtectedRoute><Leaves /></ProtectedRoute>} />
               <Route path="/attendance" element={<ProtectedRoute><Attendance /></ProtectedRoute>} />
+              <Route path="/holidays" element={<ProtectedRoute permission="calendar.manage"><Holidays /></ProtectedRoute>} />
+              <Route path="/departments" element={<ProtectedRoute permission="department.manage"><Departments /></ProtectedRoute>} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
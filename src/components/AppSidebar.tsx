@@ -6,6 +6,10 @@ import {
   Calendar,
   Clock,
   UserCircle,
+  CalendarOff,
+  Building2,
+  Network,
+  Contact,
 } from "lucide-react";
 import {
   Sidebar,
@@ -19,25 +23,40 @@ import {
   useSidebar,
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/contexts/AuthContext";
+import { Permission } from "@/lib/permissions";
 
-const menuItems = [
+interface MenuItem {
+  title: string;
+  url: string;
+  icon: typeof LayoutDashboard;
+  // Shown only with this permission
+  permission?: Permission;
+  // Hidden from users who manage profiles through the Employees page instead
+  hiddenWith?: Permission;
+}
+
+const menuItems: MenuItem[] = [
   { title: "Dashboard", url: "/", icon: LayoutDashboard },
-  { title: "Employees", url: "/employees", icon: Users, adminOnly: true },
-  { title: "My Profile", url: "/profile", icon: UserCircle, employeeOnly: true },
+  { title: "Employees", url: "/employees", icon: Users, permission: "employee.view" },
+  { title: "People", url: "/people", icon: Contact },
+  { title: "Org Chart", url: "/org-chart", icon: Network },
+  { title: "Departments", url: "/departments", icon: Building2, permission: "department.manage" },
+  { title: "My Profile", url: "/profile", icon: UserCircle, hiddenWith: "employee.edit" },
   { title: "Leaves", url: "/leaves", icon: Calendar },
   { title: "Attendance", url: "/attendance", icon: Clock },
+  { title: "Holidays", url: "/holidays", icon: CalendarOff, permission: "calendar.manage" },
 ];
 
 export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
-  const { userRole } = useAuth();
+  const { hasPermission } = useAuth();
   const currentPath = location.pathname;
   const isCollapsed = state === "collapsed";
 
   const filteredItems = menuItems.filter(item => {
-    if (item.adminOnly && userRole !== 'admin') return false;
-    if (item.employeeOnly && userRole === 'admin') return false;
+    if (item.permission && !hasPermission(item.permission)) return false;
+    if (item.hiddenWith && hasPermission(item.hiddenWith)) return false;
     return true;
   });
 
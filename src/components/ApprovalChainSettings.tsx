@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { LEAVE_TYPES, getLeaveTypeLabel } from '@/lib/leaves';
+
+interface ChainStep {
+  id: string;
+  step_order: number;
+  approver_kind: 'manager' | 'admin';
+  min_days: number;
+  leave_type: string | null;
+}
+
+const APPROVER_KINDS = [
+  { value: 'manager', label: 'Direct manager' },
+  { value: 'admin', label: 'Admin / HR' },
+];
+
+export function ApprovalChainSettings() {
+  const [steps, setSteps] = useState<ChainStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formData, setFormData] = useState({
+    approver_kind: 'manager',
+    min_days: '0',
+    leave_type: 'any',
+  });
+
+  useEffect(() => {
+    fetchSteps();
+  }, []);
+
+  const fetchSteps = async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('approval_chain_steps')
+        .select('id, step_order, approver_kind, min_days, leave_type')
+        .order('step_order');
+
+      if (error) throw error;
+      setSteps(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch approval chain');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const minDays = Number(formData.min_days);
+    if (Number.isNaN(minDays) || minDays < 0) {
+      toast.error('Minimum days must be zero or more');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('approval_chain_steps').insert({
+        step_order: (steps[steps.length - 1]?.step_order || 0) + 1,
+        approver_kind: formData.approver_kind,
+        min_days: minDays,
+        leave_type: formData.leave_type === 'any' ? null : formData.leave_type,
+      });
+
+      if (error) throw error;
+
+      toast.success('Approval step added');
+      setFormData({ approver_kind: 'manager', min_days: '0', leave_type: 'any' });
+      fetchSteps();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to add approval step');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async (stepId: string) => {
+    try {
+      const { error } = await supabase.from('approval_chain_steps').delete().eq('id', stepId);
+
+      if (error) throw error;
+
+      toast.success('Approval step removed');
+      fetchSteps();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove approval step');
+      console.error(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Approval Chain</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Requests move through each matching step in order. Changes apply to new requests only.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Approver</TableHead>
+                  <TableHead>Applies When</TableHead>
+                  <TableHead>Leave Type</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {steps.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      No steps configured; every request goes to an admin
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  steps.map((step, index) => (
+                    <TableRow key={step.id}>
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>{APPROVER_KINDS.find(k => k.value === step.approver_kind)?.label}</TableCell>
+                      <TableCell>
+                        {Number(step.min_days) > 0 ? `More than ${Number(step.min_days)} days` : 'Always'}
+                      </TableCell>
+                      <TableCell>{step.leave_type ? getLeaveTypeLabel(step.leave_type) : 'Any'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(step.id)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 min-w-44">
+            <Label>Approver</Label>
+            <Select
+              value={formData.approver_kind}
+              onValueChange={(value) => setFormData({ ...formData, approver_kind: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {APPROVER_KINDS.map(kind => (
+                  <SelectItem key={kind.value} value={kind.value}>{kind.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 w-36">
+            <Label htmlFor="chain_min_days">More than (days)</Label>
+            <Input
+              id="chain_min_days"
+              type="number"
+              min={0}
+              step={0.5}
+              value={formData.min_days}
+              onChange={(e) => setFormData({ ...formData, min_days: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2 min-w-44">
+            <Label>Leave Type</Label>
+            <Select
+              value={formData.leave_type}
+              onValueChange={(value) => setFormData({ ...formData, leave_type: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any</SelectItem>
+                {LEAVE_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Step
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,68 @@
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { ListChecks } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+
+export interface ApprovalStep {
+  id: string;
+  leave_id: string;
+  step_order: number;
+  approver_kind: 'manager' | 'admin';
+  approver_id: string | null;
+  status: 'waiting' | 'pending' | 'approved' | 'rejected' | 'skipped';
+  decided_at: string | null;
+  comment: string | null;
+  approver: { full_name: string } | null;
+  decider: { full_name: string } | null;
+}
+
+const statusStyles: Record<ApprovalStep['status'], string> = {
+  waiting: 'bg-muted-foreground',
+  pending: 'bg-warning',
+  approved: 'bg-success',
+  rejected: 'bg-destructive',
+  skipped: 'bg-muted',
+};
+
+interface ApprovalTrailProps {
+  steps: ApprovalStep[];
+}
+
+export function ApprovalTrail({ steps }: ApprovalTrailProps) {
+  if (steps.length === 0) return null;
+
+  const getApproverLabel = (step: ApprovalStep) =>
+    step.approver_kind === 'manager' ? `Manager (${step.approver?.full_name || 'Unassigned'})` : 'Admin';
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Approval trail">
+          <ListChecks className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80">
+        <p className="font-medium mb-3">Approval Trail</p>
+        <div className="space-y-3">
+          {steps.map((step) => (
+            <div key={step.id} className="flex items-start gap-3">
+              <span className={cn('mt-1.5 h-2 w-2 rounded-full shrink-0', statusStyles[step.status])} />
+              <div className="space-y-0.5 text-sm">
+                <p>
+                  <span className="font-medium">Step {step.step_order}:</span> {getApproverLabel(step)}
+                </p>
+                <p className="text-xs text-muted-foreground capitalize">
+                  {step.status}
+                  {step.decider && ` by ${step.decider.full_name}`}
+                  {step.decided_at && ` on ${format(new Date(step.decided_at), 'MMM dd, yyyy')}`}
+                </p>
+                {step.comment && <p className="text-xs italic">"{step.comment}"</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
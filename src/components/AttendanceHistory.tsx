@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Calendar } from '@/components/ui/calendar';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  eachDayOfInterval,
+  endOfMonth,
+  format,
+  isAfter,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import { formatWorkedDuration } from '@/lib/attendance';
+import { useWorkCalendar } from '@/hooks/use-work-calendar';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ExportFormat, exportTable } from '@/lib/export';
+
+interface HistoryRecord {
+  date: string;
+  check_in: string;
+  check_out: string | null;
+  worked_minutes: number | null;
+}
+
+interface ApprovedLeave {
+  start_date: string;
+  end_date: string;
+}
+
+interface AttendanceHistoryProps {
+  employeeId: string;
+}
+
+export function AttendanceHistory({ employeeId }: AttendanceHistoryProps) {
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [leaves, setLeaves] = useState<ApprovedLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { isWeekendDay, getHoliday } = useWorkCalendar();
+
+  useEffect(() => {
+    if (employeeId) {
+      fetchHistory();
+    }
+  }, [employeeId, month]);
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true);
+      const from = format(startOfMonth(month), 'yyyy-MM-dd');
+      const to = format(endOfMonth(month), 'yyyy-MM-dd');
+
+      const [attendanceData, leavesData] = await Promise.all([
+        supabase
+          .from('attendance')
+          .select('date, check_in, check_out, worked_minutes')
+          .eq('employee_id', employeeId)
+          .gte('date', from)
+          .lte('date', to),
+        supabase
+          .from('leaves')
+          .select('start_date, end_date')
+          .eq('employee_id', employeeId)
+          .eq('status', 'approved')
+          .lte('start_date', to)
+          .gte('end_date', from),
+      ]);
+
+      if (attendanceData.error) throw attendanceData.error;
+      if (leavesData.error) throw leavesData.error;
+
+      setRecords(attendanceData.data || []);
+      setLeaves(leavesData.data || []);
+    } catch (error) {
+      toast.error('Failed to fetch attendance history');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Classify every day of the visible month once per fetch
+  const days = useMemo(() => {
+    const today = startOfDay(new Date());
+    const presentDates = new Set(records.map(r => r.date));
+    const leaveRanges = leaves.map(l => ({ start: parseISO(l.start_date), end: parseISO(l.end_date) }));
+
+    const result = {
+      present: [] as Date[],
+      absent: [] as Date[],
+      leave: [] as Date[],
+      holiday: [] as Date[],
+      weekend: [] as Date[],
+    };
+
+    eachDayOfInterval({ start: startOfMonth(month), end: endOfMonth(month) }).forEach(day => {
+      const key = format(day, 'yyyy-MM-dd');
+      if (presentDates.has(key)) {
+        result.present.push(day);
+      } else if (isWeekendDay(day)) {
+        result.weekend.push(day);
+      } else if (getHoliday(day)) {
+        result.holiday.push(day);
+      } else if (leaveRanges.some(range => day >= range.start && day <= range.end)) {
+        result.leave.push(day);
+      } else if (!isAfter(day, today) && key !== format(today, 'yyyy-MM-dd')) {
+        result.absent.push(day);
+      }
+    });
+
+    return result;
+  }, [records, leaves, month, isWeekendDay, getHoliday]);
+
+  const totalMinutes = records.reduce((sum, r) => sum + (r.worked_minutes || 0), 0);
+
+  const handleExport = (exportFormat: ExportFormat) => exportTable(
+    {
+      headers: ['Date', 'Check In', 'Check Out', 'Hours Worked'],
+      rows: [...records]
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .map(r => [
+          r.date,
+          format(new Date(r.check_in), 'HH:mm'),
+          r.check_out ? format(new Date(r.check_out), 'HH:mm') : '',
+          r.worked_minutes !== null ? Math.round(r.worked_minutes / 6) / 10 : '',
+        ]),
+    },
+    `my-attendance-${format(month, 'yyyy-MM')}`,
+    exportFormat,
+    'Attendance'
+  );
+
+  const totals = [
+    { label: 'Present', value: days.present.length, className: 'bg-success' },
+    { label: 'Absent', value: days.absent.length, className: 'bg-destructive' },
+    { label: 'On Leave', value: days.leave.length, className: 'bg-primary' },
+    { label: 'Holiday', value: days.holiday.length, className: 'bg-warning' },
+    { label: 'Weekend', value: days.weekend.length, className: 'bg-muted-foreground' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Attendance History</CardTitle>
+        <ExportMenu onExport={handleExport} disabled={loading || records.length === 0} />
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <Calendar
+          month={month}
+          onMonthChange={(value) => setMonth(startOfMonth(value))}
+          toDate={new Date()}
+          showOutsideDays={false}
+          modifiers={days}
+          modifiersClassNames={{
+            present: 'bg-success/20 text-success font-semibold',
+            absent: 'bg-destructive/15 text-destructive',
+            leave: 'bg-primary/15 text-primary',
+            holiday: 'bg-warning/15 text-warning',
+            weekend: 'text-muted-foreground opacity-60',
+          }}
+          className="rounded-md border w-fit"
+        />
+
+        <div className="space-y-4">
+          <p className="font-semibold">{format(month, 'MMMM yyyy')}</p>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {totals.map(total => (
+                <div key={total.label} className="flex items-center justify-between p-2 border rounded-md">
+                  <div className="flex items-center gap-2">
+                    <span className={`h-3 w-3 rounded-full ${total.className}`} />
+                    <span className="text-sm">{total.label}</span>
+                  </div>
+                  <span className="font-semibold">{total.value} days</span>
+                </div>
+              ))}
+              <div className="flex items-center justify-between p-2 border rounded-md">
+                <span className="text-sm">Hours Worked</span>
+                <span className="font-semibold">{formatWorkedDuration(totalMinutes)}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
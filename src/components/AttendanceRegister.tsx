@@ -0,0 +1,442 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Edit } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { differenceInDays, format, parseISO } from 'date-fns';
+import { AttendanceStatus, buildDailyAttendance, formatWorkedDuration, getWorkedMinutes } from '@/lib/attendance';
+import { useWorkCalendar } from '@/hooks/use-work-calendar';
+import { useDepartments } from '@/hooks/use-departments';
+import { ExportMenu } from '@/components/ExportMenu';
+import { ExportFormat, exportTable } from '@/lib/export';
+import { fetchAllRows } from '@/lib/table-query';
+
+const MAX_RANGE_DAYS = 31;
+
+interface RegisterEmployee {
+  id: string;
+  full_name: string;
+  department: string | null;
+  terminated_at: string | null;
+}
+
+interface RegisterRecord {
+  id: string;
+  employee_id: string;
+  date: string;
+  check_in: string;
+  check_out: string | null;
+  notes: string | null;
+}
+
+interface RegisterLeave {
+  employee_id: string;
+  start_date: string;
+  end_date: string;
+}
+
+interface RegisterRow {
+  key: string;
+  employee: RegisterEmployee;
+  date: string;
+  record: RegisterRecord | null;
+  status: AttendanceStatus;
+}
+
+export function AttendanceRegister() {
+  const { user, hasPermission } = useAuth();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [fromDate, setFromDate] = useState(today);
+  const [toDate, setToDate] = useState(today);
+  const [department, setDepartment] = useState('all');
+  const [employees, setEmployees] = useState<RegisterEmployee[]>([]);
+  const [records, setRecords] = useState<RegisterRecord[]>([]);
+  const [leaves, setLeaves] = useState<RegisterLeave[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedRow, setSelectedRow] = useState<RegisterRow | null>(null);
+  const [correction, setCorrection] = useState({ check_in: '', check_out: '', notes: '' });
+  const [saving, setSaving] = useState(false);
+  const { isWeekendDay, getHoliday } = useWorkCalendar();
+  const { departments } = useDepartments();
+
+  useEffect(() => {
+    fetchRegister();
+  }, [fromDate, toDate, department]);
+
+  const fetchRegister = async () => {
+    if (!fromDate || !toDate || fromDate > toDate) return;
+
+    if (differenceInDays(parseISO(toDate), parseISO(fromDate)) >= MAX_RANGE_DAYS) {
+      toast.error(`Please choose a range of at most ${MAX_RANGE_DAYS} days`);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      // A month of company-wide records easily passes the per-request row cap
+      const [employeesData, attendanceData, leavesData] = await Promise.all([
+        fetchAllRows<RegisterEmployee>((from, to) => {
+          let query = supabase
+            .from('employee_directory')
+            .select('id, full_name, department, terminated_at')
+            .or(`terminated_at.is.null,terminated_at.gte.${fromDate}`)
+            .order('full_name')
+            .order('id');
+
+          if (department !== 'all') {
+            query = query.eq('department_id', department);
+          }
+
+          return query.range(from, to);
+        }),
+        fetchAllRows<RegisterRecord>((from, to) =>
+          supabase
+            .from('attendance')
+            .select('id, employee_id, date, check_in, check_out, notes')
+            .gte('date', fromDate)
+            .lte('date', toDate)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows<RegisterLeave>((from, to) =>
+          supabase
+            .from('leaves')
+            .select('employee_id, start_date, end_date')
+            .eq('status', 'approved')
+            .lte('start_date', toDate)
+            .gte('end_date', fromDate)
+            .order('id')
+            .range(from, to)
+        ),
+      ]);
+
+      setEmployees(employeesData);
+      setRecords(attendanceData);
+      setLeaves(leavesData);
+    } catch (error) {
+      toast.error('Failed to fetch attendance register');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // One row per employee per working day, including days with no record
+  const rows = useMemo<RegisterRow[]>(() => {
+    if (!fromDate || !toDate || fromDate > toDate) return [];
+
+    return buildDailyAttendance({
+      employees,
+      records,
+      leaves,
+      fromDate,
+      toDate,
+      today,
+      isNonWorkingDay: (day) => isWeekendDay(day) || !!getHoliday(day),
+    }).map(row => ({ key: `${row.employee.id}:${row.date}`, ...row }));
+  }, [employees, records, leaves, fromDate, toDate, today, isWeekendDay, getHoliday]);
+
+  const handleExport = (exportFormat: ExportFormat) => exportTable(
+    {
+      headers: ['Employee', 'Department', 'Date', 'Check In', 'Check Out', 'Hours Worked', 'Status', 'Notes'],
+      rows: rows.map(row => [
+        row.employee.full_name,
+        row.employee.department,
+        row.date,
+        row.record ? format(new Date(row.record.check_in), 'HH:mm') : '',
+        row.record?.check_out ? format(new Date(row.record.check_out), 'HH:mm') : '',
+        row.record ? Math.round(getWorkedMinutes(row.record.check_in, row.record.check_out) / 6) / 10 : '',
+        row.status,
+        row.record?.notes,
+      ]),
+    },
+    `attendance-register-${fromDate}-to-${toDate}${department === 'all' ? '' : `-${departments.find(d => d.id === department)?.name}`}`,
+    exportFormat,
+    'Attendance'
+  );
+
+  const handleCorrect = (row: RegisterRow) => {
+    setSelectedRow(row);
+    setCorrection({
+      check_in: row.record ? format(new Date(row.record.check_in), 'HH:mm') : '',
+      check_out: row.record?.check_out ? format(new Date(row.record.check_out), 'HH:mm') : '',
+      notes: '',
+    });
+  };
+
+  const handleSaveCorrection = async () => {
+    if (!selectedRow) return;
+
+    if (!correction.check_in || !correction.notes) {
+      toast.error('Check-in time and a correction note are required');
+      return;
+    }
+
+    const checkIn = new Date(`${selectedRow.date}T${correction.check_in}`).toISOString();
+    const checkOut = correction.check_out
+      ? new Date(`${selectedRow.date}T${correction.check_out}`).toISOString()
+      : null;
+
+    if (checkOut && checkOut < checkIn) {
+      toast.error('Check-out must be after check-in');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { record } = selectedRow;
+      let entityId = record?.id;
+
+      if (record) {
+        const { error } = await supabase
+          .from('attendance')
+          .update({ check_in: checkIn, check_out: checkOut, notes: correction.notes })
+          .eq('id', record.id);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('attendance')
+          .insert({
+            employee_id: selectedRow.employee.id,
+            date: selectedRow.date,
+            check_in: checkIn,
+            check_out: checkOut,
+            status: 'present',
+            notes: correction.notes,
+          })
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        entityId = data.id;
+      }
+
+      const formatTime = (value: string | null) => (value ? format(new Date(value), 'HH:mm') : '-');
+      const before = record ? `${formatTime(record.check_in)}–${formatTime(record.check_out)}` : 'no record';
+      const after = `${formatTime(checkIn)}–${formatTime(checkOut)}`;
+
+      await supabase.rpc('log_activity', {
+        p_user_id: user?.id,
+        p_action: 'corrected',
+        p_entity_type: 'attendance',
+        p_entity_id: entityId,
+        p_description: `Corrected attendance for ${selectedRow.employee.full_name} on ${format(parseISO(selectedRow.date), 'MMM dd, yyyy')} (${before} → ${after}): ${correction.notes}`,
+      });
+
+      toast.success('Attendance corrected successfully');
+      setSelectedRow(null);
+      fetchRegister();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to correct attendance');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getStatusBadge = (status: AttendanceStatus) => {
+    const styles: Record<AttendanceStatus, string> = {
+      present: 'bg-success text-success-foreground',
+      late: 'bg-warning text-warning-foreground',
+      absent: 'bg-destructive text-destructive-foreground',
+      leave: 'bg-primary text-primary-foreground',
+    };
+    const labels: Record<AttendanceStatus, string> = {
+      present: 'Present',
+      late: 'Late',
+      absent: 'Absent',
+      leave: 'On Leave',
+    };
+
+    return <Badge className={`border-transparent ${styles[status]}`}>{labels[status]}</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Attendance Register</CardTitle>
+        <div className="flex flex-wrap items-end gap-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="register_from">From</Label>
+            <Input
+              id="register_from"
+              type="date"
+              value={fromDate}
+              max={today}
+              onChange={(e) => setFromDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="register_to">To</Label>
+            <Input
+              id="register_to"
+              type="date"
+              value={toDate}
+              max={today}
+              onChange={(e) => setToDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2 min-w-48">
+            <Label>Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {departments.map(d => (
+                  <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="ml-auto">
+            <ExportMenu onExport={handleExport} disabled={loading || rows.length === 0} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Check In</TableHead>
+                  <TableHead>Check Out</TableHead>
+                  <TableHead>Hours</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      No attendance records found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow
+                      key={row.key}
+                      className={row.status === 'absent' ? 'bg-destructive/5' : row.status === 'late' ? 'bg-warning/5' : undefined}
+                    >
+                      <TableCell className="font-medium">{row.employee.full_name}</TableCell>
+                      <TableCell>{row.employee.department || '-'}</TableCell>
+                      <TableCell>{format(parseISO(row.date), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{row.record ? format(new Date(row.record.check_in), 'hh:mm a') : '-'}</TableCell>
+                      <TableCell>{row.record?.check_out ? format(new Date(row.record.check_out), 'hh:mm a') : '-'}</TableCell>
+                      <TableCell>
+                        {row.record ? formatWorkedDuration(getWorkedMinutes(row.record.check_in, row.record.check_out)) : '-'}
+                      </TableCell>
+                      <TableCell>{getStatusBadge(row.status)}</TableCell>
+                      <TableCell className="text-right">
+                        {hasPermission('attendance.correct') && (
+                          <Button variant="ghost" size="icon" onClick={() => handleCorrect(row)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedRow} onOpenChange={(open) => !open && setSelectedRow(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Correct Attendance</DialogTitle>
+            <DialogDescription>
+              {selectedRow && `${selectedRow.employee.full_name} — ${format(parseISO(selectedRow.date), 'EEEE, MMMM dd, yyyy')}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="correction_check_in">Check In</Label>
+                <Input
+                  id="correction_check_in"
+                  type="time"
+                  value={correction.check_in}
+                  onChange={(e) => setCorrection({ ...correction, check_in: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="correction_check_out">Check Out</Label>
+                <Input
+                  id="correction_check_out"
+                  type="time"
+                  value={correction.check_out}
+                  onChange={(e) => setCorrection({ ...correction, check_out: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="correction_notes">Reason for Correction</Label>
+              <Textarea
+                id="correction_notes"
+                value={correction.notes}
+                onChange={(e) => setCorrection({ ...correction, notes: e.target.value })}
+                placeholder="e.g. Forgot to check out"
+                rows={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelectedRow(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveCorrection} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Correction'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// On-screen crop area and the size of the saved image, in pixels
+const VIEW_SIZE = 256;
+const OUTPUT_SIZE = 256;
+const MAX_ZOOM = 3;
+
+interface AvatarCropDialogProps {
+  file: File | null;
+  saving?: boolean;
+  onCancel: () => void;
+  onCrop: (image: Blob) => void;
+}
+
+interface Crop {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+// Image size in view pixels: at zoom 1 the shorter side fills the crop area
+function getDisplaySize(image: HTMLImageElement, zoom: number) {
+  const scale = Math.max(VIEW_SIZE / image.naturalWidth, VIEW_SIZE / image.naturalHeight) * zoom;
+  return { width: image.naturalWidth * scale, height: image.naturalHeight * scale };
+}
+
+// Keeps the crop area fully covered by the image
+function clampCrop(image: HTMLImageElement, crop: Crop): Crop {
+  const { width, height } = getDisplaySize(image, crop.zoom);
+  const maxX = (width - VIEW_SIZE) / 2;
+  const maxY = (height - VIEW_SIZE) / 2;
+  return {
+    zoom: crop.zoom,
+    x: Math.min(maxX, Math.max(-maxX, crop.x)),
+    y: Math.min(maxY, Math.max(-maxY, crop.y)),
+  };
+}
+
+function renderCrop(image: HTMLImageElement, crop: Crop) {
+  const { width, height } = getDisplaySize(image, crop.zoom);
+  const ratio = OUTPUT_SIZE / VIEW_SIZE;
+  const canvas = document.createElement('canvas');
+  canvas.width = OUTPUT_SIZE;
+  canvas.height = OUTPUT_SIZE;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  // JPEG has no transparency, so transparent PNGs get a white backdrop
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, OUTPUT_SIZE, OUTPUT_SIZE);
+  context.drawImage(
+    image,
+    ((VIEW_SIZE - width) / 2 + crop.x) * ratio,
+    ((VIEW_SIZE - height) / 2 + crop.y) * ratio,
+    width * ratio,
+    height * ratio,
+  );
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to process image'))), 'image/jpeg', 0.9);
+  });
+}
+
+export function AvatarCropDialog({ file, saving, onCancel, onCrop }: AvatarCropDialogProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState<Crop>({ zoom: 1, x: 0, y: 0 });
+  const [unreadable, setUnreadable] = useState(false);
+  const dragStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    setImage(null);
+    setUnreadable(false);
+    setCrop({ zoom: 1, x: 0, y: 0 });
+    if (!file) return;
+
+    const url = URL.createObjectURL(file);
+    const element = new Image();
+    element.onload = () => setImage(element);
+    element.onerror = () => setUnreadable(true);
+    element.src = url;
+
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  const handleSave = async () => {
+    if (!image) return;
+    onCrop(await renderCrop(image, crop));
+  };
+
+  const display = image ? getDisplaySize(image, crop.zoom) : null;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Crop Profile Picture</DialogTitle>
+          <DialogDescription>Drag to reposition and use the slider to zoom</DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col items-center gap-4">
+          <div
+            className="relative overflow-hidden rounded-full border bg-muted touch-none cursor-move"
+            style={{ width: VIEW_SIZE, height: VIEW_SIZE }}
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              dragStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: crop.x, y: crop.y };
+            }}
+            onPointerMove={(e) => {
+              if (!image || !dragStart.current) return;
+              const start = dragStart.current;
+              setCrop(clampCrop(image, {
+                zoom: crop.zoom,
+                x: start.x + e.clientX - start.pointerX,
+                y: start.y + e.clientY - start.pointerY,
+              }));
+            }}
+            onPointerUp={() => {
+              dragStart.current = null;
+            }}
+          >
+            {unreadable && (
+              <p className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-muted-foreground">
+                This file could not be read as an image
+              </p>
+            )}
+            {image && display && (
+              <img
+                src={image.src}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none select-none"
+                style={{
+                  width: display.width,
+                  height: display.height,
+                  left: (VIEW_SIZE - display.width) / 2 + crop.x,
+                  top: (VIEW_SIZE - display.height) / 2 + crop.y,
+                }}
+              />
+            )}
+          </div>
+          <div className="w-full space-y-2">
+            <Label>Zoom</Label>
+            <Slider
+              min={1}
+              max={MAX_ZOOM}
+              step={0.01}
+              value={[crop.zoom]}
+              disabled={!image}
+              onValueChange={([zoom]) => image && setCrop(clampCrop(image, { ...crop, zoom }))}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!image || saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
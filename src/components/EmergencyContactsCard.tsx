@@ -0,0 +1,265 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Edit, Mail, Phone, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface EmergencyContact {
+  id: string;
+  name: string;
+  relationship: string;
+  phone: string;
+  email: string | null;
+  is_primary: boolean;
+}
+
+interface EmergencyContactsCardProps {
+  employeeId: string;
+}
+
+const EMPTY_CONTACT = { name: '', relationship: '', phone: '', email: '', is_primary: false };
+
+export function EmergencyContactsCard({ employeeId }: EmergencyContactsCardProps) {
+  const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedContact, setSelectedContact] = useState<EmergencyContact | null>(null);
+  const [formData, setFormData] = useState(EMPTY_CONTACT);
+  const [saving, setSaving] = useState(false);
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('emergency_contacts')
+        .select('id, name, relationship, phone, email, is_primary')
+        .eq('employee_id', employeeId)
+        .order('is_primary', { ascending: false })
+        .order('created_at');
+
+      if (error) throw error;
+      setContacts(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch emergency contacts');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts]);
+
+  const handleAdd = () => {
+    setSelectedContact(null);
+    // The first contact becomes the primary one
+    setFormData({ ...EMPTY_CONTACT, is_primary: contacts.length === 0 });
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (contact: EmergencyContact) => {
+    setSelectedContact(contact);
+    setFormData({
+      name: contact.name,
+      relationship: contact.relationship,
+      phone: contact.phone,
+      email: contact.email || '',
+      is_primary: contact.is_primary,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim() || !formData.relationship.trim() || !formData.phone.trim()) {
+      toast.error('Name, relationship and phone are required');
+      return;
+    }
+
+    const values = {
+      name: formData.name.trim(),
+      relationship: formData.relationship.trim(),
+      phone: formData.phone.trim(),
+      email: formData.email.trim() || null,
+      is_primary: formData.is_primary,
+    };
+
+    try {
+      setSaving(true);
+
+      // Only one primary contact is allowed, so demote the current one first
+      if (values.is_primary) {
+        const { error } = await supabase
+          .from('emergency_contacts')
+          .update({ is_primary: false })
+          .eq('employee_id', employeeId)
+          .eq('is_primary', true)
+          .neq('id', selectedContact?.id ?? '00000000-0000-0000-0000-000000000000');
+
+        if (error) throw error;
+      }
+
+      const { error } = selectedContact
+        ? await supabase.from('emergency_contacts').update(values).eq('id', selectedContact.id)
+        : await supabase.from('emergency_contacts').insert({ ...values, employee_id: employeeId });
+
+      if (error) throw error;
+
+      toast.success(selectedContact ? 'Emergency contact updated' : 'Emergency contact added');
+      setIsDialogOpen(false);
+      fetchContacts();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save emergency contact');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (contactId: string) => {
+    try {
+      const { error } = await supabase.from('emergency_contacts').delete().eq('id', contactId);
+
+      if (error) throw error;
+
+      toast.success('Emergency contact removed');
+      fetchContacts();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove emergency contact');
+      console.error(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Emergency Contacts</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">Visible only to the employee and HR</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Contact
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No emergency contacts added</p>
+        ) : (
+          <div className="space-y-3">
+            {contacts.map((contact) => (
+              <div key={contact.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{contact.name}</p>
+                    <span className="text-muted-foreground">({contact.relationship})</span>
+                    {contact.is_primary && <Badge variant="secondary">Primary</Badge>}
+                  </div>
+                  <p className="flex items-center gap-2 text-muted-foreground">
+                    <Phone className="h-3 w-3" />
+                    {contact.phone}
+                  </p>
+                  {contact.email && (
+                    <p className="flex items-center gap-2 text-muted-foreground">
+                      <Mail className="h-3 w-3" />
+                      {contact.email}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(contact)}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(contact.id)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedContact ? 'Edit Emergency Contact' : 'Add Emergency Contact'}</DialogTitle>
+            <DialogDescription>Who should we call if something happens at work?</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="contact_name">Name</Label>
+              <Input
+                id="contact_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact_relationship">Relationship</Label>
+              <Input
+                id="contact_relationship"
+                value={formData.relationship}
+                onChange={(e) => setFormData({ ...formData, relationship: e.target.value })}
+                placeholder="e.g. Partner, Parent"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact_phone">Phone</Label>
+              <Input
+                id="contact_phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contact_email">Email (optional)</Label>
+              <Input
+                id="contact_email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center gap-2 md:col-span-2">
+              <Checkbox
+                id="contact_primary"
+                checked={formData.is_primary}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_primary: checked === true })}
+              />
+              <Label htmlFor="contact_primary" className="font-normal">Primary contact</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Download, FileText, Trash2, Upload } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { useAuth } from '@/contexts/AuthContext';
+
+const BUCKET = 'employee-documents';
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+interface EmployeeDocument {
+  id: string;
+  name: string;
+  storage_path: string;
+  size_bytes: number;
+  created_at: string;
+  profiles: { full_name: string } | null;
+}
+
+interface EmployeeDocumentsProps {
+  employeeId: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export function EmployeeDocuments({ employeeId }: EmployeeDocumentsProps) {
+  const { user, hasPermission } = useAuth();
+  const canManage = hasPermission('employee.edit');
+  const [documents, setDocuments] = useState<EmployeeDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const fetchDocuments = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('employee_documents')
+        .select('*, profiles!employee_documents_uploaded_by_fkey(full_name)')
+        .eq('employee_id', employeeId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setDocuments(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch documents');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    fetchDocuments();
+  }, [fetchDocuments]);
+
+  const handleUpload = async (file: File) => {
+    if (file.size > MAX_FILE_BYTES) {
+      toast.error('Documents must be 10 MB or smaller');
+      return;
+    }
+
+    const path = `${employeeId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+    try {
+      setUploading(true);
+      const { error: uploadError } = await supabase.storage.from(BUCKET).upload(path, file, {
+        contentType: file.type || undefined,
+      });
+
+      if (uploadError) throw uploadError;
+
+      const { error } = await supabase.from('employee_documents').insert({
+        employee_id: employeeId,
+        name: file.name,
+        storage_path: path,
+        content_type: file.type || null,
+        size_bytes: file.size,
+        uploaded_by: user?.id,
+      });
+
+      if (error) {
+        await supabase.storage.from(BUCKET).remove([path]);
+        throw error;
+      }
+
+      toast.success('Document uploaded successfully');
+      fetchDocuments();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to upload document');
+      console.error(error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDownload = async (document: EmployeeDocument) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(BUCKET)
+        .createSignedUrl(document.storage_path, 60, { download: document.name });
+
+      if (error) throw error;
+      window.location.assign(data.signedUrl);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to download document');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async (document: EmployeeDocument) => {
+    try {
+      const { error } = await supabase.from('employee_documents').delete().eq('id', document.id);
+
+      if (error) throw error;
+
+      // The row is the source of truth; a leftover file is only unreachable
+      const { error: storageError } = await supabase.storage.from(BUCKET).remove([document.storage_path]);
+      if (storageError) console.error(storageError);
+
+      toast.success('Document removed successfully');
+      fetchDocuments();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove document');
+      console.error(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Documents</CardTitle>
+        {canManage && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleUpload(file);
+              }}
+            />
+            <Button variant="outline" size="sm" disabled={uploading} onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              {uploading ? 'Uploading...' : 'Upload'}
+            </Button>
+          </>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No documents uploaded</p>
+        ) : (
+          <div className="space-y-2">
+            {documents.map((document) => (
+              <div key={document.id} className="flex items-center gap-3 rounded-md border p-3">
+                <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{document.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatSize(document.size_bytes)} · {format(new Date(document.created_at), 'MMM dd, yyyy')}
+                    {document.profiles && ` · ${document.profiles.full_name}`}
+                  </p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDownload(document)}>
+                  <Download className="h-4 w-4" />
+                </Button>
+                {canManage && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(document)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,375 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { isValid, parse } from 'date-fns';
+import { downloadFile, parseCsv, toCsv } from '@/lib/csv';
+import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction } from '@/lib/functions';
+import { APP_ROLES, AppRole } from '@/lib/permissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDepartments } from '@/hooks/use-departments';
+
+const IMPORT_FIELDS = [
+  { key: 'full_name', label: 'Full Name', aliases: ['name', 'fullname', 'employee'] },
+  { key: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'workemail'] },
+  { key: 'department', label: 'Department', aliases: ['department', 'dept', 'team'] },
+  { key: 'position', label: 'Position', aliases: ['position', 'title', 'jobtitle'] },
+  { key: 'phone', label: 'Phone', aliases: ['phone', 'phonenumber', 'mobile'] },
+  { key: 'hire_date', label: 'Hire Date', aliases: ['hiredate', 'startdate', 'joined'] },
+  { key: 'role', label: 'Role', aliases: ['role'] },
+] as const;
+
+type ImportField = (typeof IMPORT_FIELDS)[number]['key'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UNMAPPED = 'none';
+// Matches the batch limit of the import-employees edge function
+const MAX_IMPORT_ROWS = 200;
+
+interface PreviewRow {
+  row: number;
+  values: Record<ImportField, string>;
+  errors: string[];
+}
+
+interface ImportResult {
+  row: number;
+  email: string;
+  id?: string;
+  error?: string;
+}
+
+interface EmployeeImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function guessMapping(headers: string[]) {
+  return Object.fromEntries(IMPORT_FIELDS.map(field => {
+    const index = headers.findIndex(h =>
+      [normalizeHeader(field.key), ...field.aliases].includes(normalizeHeader(h))
+    );
+    return [field.key, index === -1 ? UNMAPPED : String(index)];
+  })) as Record<ImportField, string>;
+}
+
+export function EmployeeImportDialog({ open, onOpenChange, onImported }: EmployeeImportDialogProps) {
+  const { hasPermission } = useAuth();
+  const { departments } = useDepartments();
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  // Snapshot taken on upload so rows imported by this batch are not flagged afterwards
+  const [knownEmails, setKnownEmails] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Record<ImportField, string>>(guessMapping([]));
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setKnownEmails([]);
+    setMapping(guessMapping([]));
+    setResults(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const rows = parseCsv(await file.text());
+    if (rows.length < 2) {
+      toast.error('The file needs a header row and at least one employee');
+      return;
+    }
+
+    // Checked against every email-like cell, so remapping columns needs no new lookup
+    const candidateEmails = [...new Set(
+      rows.slice(1).flat().map(cell => cell.trim().toLowerCase()).filter(cell => EMAIL_PATTERN.test(cell))
+    )];
+    const { data: existingEmails, error } = await supabase.rpc('find_existing_emails', { _emails: candidateEmails });
+    if (error) {
+      toast.error('Failed to check for existing employees');
+      console.error(error);
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(rows[0].map(h => h.trim()));
+    setDataRows(rows.slice(1));
+    setKnownEmails(existingEmails || []);
+    setMapping(guessMapping(rows[0]));
+    setResults(null);
+  };
+
+  // Re-validated whenever the column mapping changes
+  const previewRows = useMemo<PreviewRow[]>(() => {
+    const existing = new Set(knownEmails.map(e => e.toLowerCase()));
+    const seen = new Map<string, number>();
+    const canAssignRoles = hasPermission('role.assign');
+    const departmentNames = new Map(departments.map(d => [d.name.toLowerCase(), d.name]));
+
+    return dataRows.map((cells, index) => {
+      const row = index + 2; // 1-based, after the header row
+      const values = Object.fromEntries(IMPORT_FIELDS.map(field => [
+        field.key,
+        mapping[field.key] === UNMAPPED ? '' : (cells[Number(mapping[field.key])] || '').trim(),
+      ])) as Record<ImportField, string>;
+      values.email = values.email.toLowerCase();
+      values.role = values.role.toLowerCase() || 'employee';
+
+      const errors: string[] = [];
+      if (!values.full_name) errors.push('Full name is missing');
+      if (!values.email) {
+        errors.push('Email is missing');
+      } else if (!EMAIL_PATTERN.test(values.email)) {
+        errors.push('Email is invalid');
+      } else if (existing.has(values.email)) {
+        errors.push('Email already belongs to an employee');
+      } else if (seen.has(values.email)) {
+        errors.push(`Duplicate of row ${seen.get(values.email)}`);
+      } else {
+        seen.set(values.email, row);
+      }
+      if (values.department) {
+        const name = departmentNames.get(values.department.toLowerCase());
+        if (name) {
+          values.department = name;
+        } else {
+          errors.push(`Unknown department "${values.department}"`);
+        }
+      }
+      if (values.hire_date && !isValid(parse(values.hire_date, 'yyyy-MM-dd', new Date()))) {
+        errors.push('Hire date must be YYYY-MM-DD');
+      }
+      if (!APP_ROLES.some(r => r.value === values.role)) {
+        errors.push(`Unknown role "${values.role}"`);
+      } else if (values.role !== 'employee' && !canAssignRoles) {
+        errors.push('You cannot assign roles other than employee');
+      }
+
+      return { row, values, errors };
+    });
+  }, [dataRows, mapping, knownEmails, departments, hasPermission]);
+
+  const validRows = previewRows.filter(r => r.errors.length === 0);
+  const invalidRows = previewRows.filter(r => r.errors.length > 0);
+  const failedResults = results?.filter(r => r.error) || [];
+
+  const handleImport = async () => {
+    if (mapping.full_name === UNMAPPED || mapping.email === UNMAPPED) {
+      toast.error('Map the Full Name and Email columns before importing');
+      return;
+    }
+
+    if (validRows.length > MAX_IMPORT_ROWS) {
+      toast.error(`At most ${MAX_IMPORT_ROWS} employees can be imported at once; please split the file`);
+      return;
+    }
+
+    try {
+      setImporting(true);
+      const response = await invokeFunction<{ created: number; failed: number; results: ImportResult[] }>(
+        'import-employees',
+        {
+          rows: validRows.map(r => ({
+            row: r.row,
+            ...r.values,
+            role: r.values.role as AppRole,
+            hire_date: r.values.hire_date || null,
+          })),
+          redirect_to: `${window.location.origin}/auth?invite=1`,
+        }
+      );
+
+      setResults(response.results);
+      if (response.failed > 0) {
+        toast.warning(`Imported ${response.created} employees; ${response.failed} failed`);
+      } else {
+        toast.success(`Imported ${response.created} employees and sent their invitations`);
+      }
+      onImported();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to import employees');
+      console.error(error);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDownloadErrors = () => {
+    const rows = [
+      ...invalidRows.map(r => [r.row, r.values.full_name, r.values.email, r.errors.join('; ')]),
+      ...failedResults.map(r => [
+        r.row,
+        previewRows.find(p => p.row === r.row)?.values.full_name,
+        r.email,
+        r.error,
+      ]),
+    ].sort((a, b) => Number(a[0]) - Number(b[0]));
+
+    downloadFile(
+      toCsv([['Row', 'Full Name', 'Email', 'Errors'], ...rows]),
+      `${fileName.replace(/\.csv$/i, '') || 'import'}-errors.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Employees</DialogTitle>
+          <DialogDescription>
+            Upload a CSV with a header row. Each valid row creates an account and sends an invitation email.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="import_file">CSV File</Label>
+            <Input
+              id="import_file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+
+          {headers.length > 0 && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <Label>{field.label}</Label>
+                    <Select
+                      value={mapping[field.key]}
+                      onValueChange={(value) => setMapping({ ...mapping, [field.key]: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not imported</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="outline" className="border-success text-success">{validRows.length} ready</Badge>
+                {invalidRows.length > 0 && (
+                  <Badge variant="outline" className="border-destructive text-destructive">
+                    {invalidRows.length} with errors
+                  </Badge>
+                )}
+                {results && (
+                  <span className="text-muted-foreground">
+                    {results.length - failedResults.length} imported, {failedResults.length} failed
+                  </span>
+                )}
+              </div>
+
+              <ScrollArea className="h-72 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Full Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Hire Date</TableHead>
+                      <TableHead>Role</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {previewRows.map(row => {
+                      const result = results?.find(r => r.row === row.row);
+                      return (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell>{row.values.full_name || '-'}</TableCell>
+                          <TableCell>{row.values.email || '-'}</TableCell>
+                          <TableCell>{row.values.department || '-'}</TableCell>
+                          <TableCell>{row.values.hire_date || '-'}</TableCell>
+                          <TableCell className="capitalize">{row.values.role}</TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <span className="text-sm text-destructive">{row.errors.join('; ')}</span>
+                            ) : result?.error ? (
+                              <span className="text-sm text-destructive">{result.error}</span>
+                            ) : result ? (
+                              <Badge className="bg-success text-success-foreground">Imported</Badge>
+                            ) : (
+                              <Badge variant="outline">Ready</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          {(invalidRows.length > 0 || failedResults.length > 0) && (
+            <Button variant="outline" onClick={handleDownloadErrors} className="mr-auto">
+              <Download className="h-4 w-4 mr-2" />
+              Error Report
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            {results ? 'Close' : 'Cancel'}
+          </Button>
+          {!results && (
+            <Button onClick={handleImport} disabled={importing || validRows.length === 0}>
+              {importing ? 'Importing...' : `Import ${validRows.length} Employees`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Check, ChevronsUpDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { supabase } from '@/integrations/supabase/client';
+import { useDebounce } from '@/hooks/use-debounce';
+import { toPrefixTsQuery } from '@/lib/table-query';
+import { cn } from '@/lib/utils';
+
+const MAX_RESULTS = 20;
+
+interface EmployeeOption {
+  id: string;
+  full_name: string;
+  position: string | null;
+}
+
+interface EmployeePickerProps {
+  id?: string;
+  value: string;
+  // Label for the current value, which may not be among the search results
+  selectedName?: string | null;
+  excludeId?: string;
+  placeholder?: string;
+  noneLabel?: string;
+  onChange: (id: string, name: string | null) => void;
+}
+
+// Searches active employees as you type rather than loading everyone up front
+export function EmployeePicker({
+  id,
+  value,
+  selectedName,
+  excludeId,
+  placeholder = 'Search employees...',
+  noneLabel = 'None',
+  onChange,
+}: EmployeePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [options, setOptions] = useState<EmployeeOption[]>([]);
+  const [loading, setLoading] = useState(false);
+  const debouncedSearch = useDebounce(search);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    const fetchOptions = async () => {
+      setLoading(true);
+      let query = supabase
+        .from('profiles')
+        .select('id, full_name, position')
+        .is('terminated_at', null)
+        .order('full_name')
+        .limit(MAX_RESULTS);
+
+      const tsQuery = toPrefixTsQuery(debouncedSearch);
+      if (tsQuery) query = query.textSearch('search_vector', tsQuery, { config: 'simple' });
+      if (excludeId) query = query.neq('id', excludeId);
+
+      const { data, error } = await query;
+      if (cancelled) return;
+      if (error) console.error('Error searching employees:', error);
+
+      setOptions(data || []);
+      setLoading(false);
+    };
+
+    fetchOptions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, debouncedSearch, excludeId]);
+
+  const select = (optionId: string, name: string | null) => {
+    onChange(optionId, name);
+    setOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button id={id} variant="outline" role="combobox" aria-expanded={open} className="w-full justify-between font-normal">
+          <span className="truncate">{value ? selectedName || 'Unknown employee' : noneLabel}</span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        {/* Results are already filtered by the database */}
+        <Command shouldFilter={false}>
+          <CommandInput placeholder={placeholder} value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{loading ? 'Searching...' : 'No employees found'}</CommandEmpty>
+            <CommandGroup>
+              {!search && (
+                <CommandItem value="none" onSelect={() => select('', null)}>
+                  <Check className={cn('mr-2 h-4 w-4', value ? 'opacity-0' : 'opacity-100')} />
+                  {noneLabel}
+                </CommandItem>
+              )}
+              {options.map(option => (
+                <CommandItem key={option.id} value={option.id} onSelect={() => select(option.id, option.full_name)}>
+                  <Check className={cn('mr-2 h-4 w-4', value === option.id ? 'opacity-100' : 'opacity-0')} />
+                  <span className="truncate">{option.full_name}</span>
+                  {option.position && <span className="ml-auto pl-2 text-xs text-muted-foreground truncate">{option.position}</span>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { ExportFormat } from '@/lib/export';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => Promise<void> | void;
+  disabled?: boolean;
+  label?: string;
+}
+
+export function ExportMenu({ onExport, disabled, label = 'Export' }: ExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    try {
+      setExporting(true);
+      await onExport(format);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to export');
+      console.error(error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled || exporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {exporting ? 'Exporting...' : label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,52 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useLeaveBalances } from '@/hooks/use-leave-balances';
+import { getLeaveTypeLabel } from '@/lib/leaves';
+
+interface LeaveBalanceCardProps {
+  employeeId: string;
+  title?: string;
+}
+
+export function LeaveBalanceCard({ employeeId, title = 'My Leave Balance' }: LeaveBalanceCardProps) {
+  const year = new Date().getFullYear();
+  const { balances, loading } = useLeaveBalances(employeeId, year);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title} ({year})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 4 }).map((_, i) => (
+              <Skeleton key={i} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : balances.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No leave entitlements configured</p>
+        ) : (
+          <div className="space-y-4">
+            {balances.map((balance) => (
+              <div key={balance.leave_type} className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{getLeaveTypeLabel(balance.leave_type)}</span>
+                  <span className="text-muted-foreground">
+                    {balance.remaining} of {balance.entitled} days left
+                    {balance.pending > 0 && ` (${balance.pending} pending)`}
+                  </span>
+                </div>
+                <Progress
+                  value={balance.entitled > 0 ? ((balance.used + balance.pending) / balance.entitled) * 100 : 0}
+                  className="h-2"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
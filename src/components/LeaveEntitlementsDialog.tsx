@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { useLeaveBalances } from '@/hooks/use-leave-balances';
+import { getLeaveTypeLabel } from '@/lib/leaves';
+
+interface LeaveEntitlementsDialogProps {
+  employee: { id: string; full_name: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function LeaveEntitlementsDialog({ employee, open, onOpenChange }: LeaveEntitlementsDialogProps) {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [allowances, setAllowances] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { balances, refresh } = useLeaveBalances(open ? employee?.id : undefined, year);
+
+  useEffect(() => {
+    setAllowances(Object.fromEntries(balances.map(b => [b.leave_type, String(b.entitled)])));
+  }, [balances]);
+
+  const handleSave = async () => {
+    if (!employee) return;
+
+    const rows = balances.map(b => ({
+      employee_id: employee.id,
+      leave_type: b.leave_type,
+      year,
+      days_allowed: Number(allowances[b.leave_type]),
+    }));
+
+    if (rows.some(r => Number.isNaN(r.days_allowed) || r.days_allowed < 0)) {
+      toast.error('Entitlements must be zero or a positive number of days');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('leave_entitlements')
+        .upsert(rows, { onConflict: 'employee_id,leave_type,year' });
+
+      if (error) throw error;
+
+      toast.success('Leave entitlements updated successfully');
+      refresh();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update leave entitlements');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Leave Entitlements</DialogTitle>
+          <DialogDescription>Yearly allowance per leave type for {employee?.full_name}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Year</Label>
+            <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[currentYear - 1, currentYear, currentYear + 1].map(y => (
+                  <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {balances.map((balance) => (
+            <div key={balance.leave_type} className="grid grid-cols-2 items-center gap-4">
+              <div>
+                <Label htmlFor={`entitlement_${balance.leave_type}`}>{getLeaveTypeLabel(balance.leave_type)}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {balance.used} used, {balance.pending} pending
+                </p>
+              </div>
+              <Input
+                id={`entitlement_${balance.leave_type}`}
+                type="number"
+                min={0}
+                step={0.5}
+                value={allowances[balance.leave_type] ?? ''}
+                onChange={(e) => setAllowances({ ...allowances, [balance.leave_type]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
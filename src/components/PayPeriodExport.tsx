@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { supabase } from '@/integrations/supabase/client';
+import { differenceInDays, endOfMonth, format, parseISO, startOfMonth, subMonths } from 'date-fns';
+import { ExportMenu } from '@/components/ExportMenu';
+import { buildDailyAttendance, getWorkedMinutes } from '@/lib/attendance';
+import { ExportFormat, exportTable } from '@/lib/export';
+import { fetchAllRows } from '@/lib/table-query';
+import { useWorkCalendar } from '@/hooks/use-work-calendar';
+
+const MAX_PERIOD_DAYS = 62;
+
+interface PayrollEmployee {
+  id: string;
+  full_name: string;
+  email: string;
+  department: string | null;
+  position: string | null;
+  terminated_at: string | null;
+}
+
+export function PayPeriodExport() {
+  const lastMonth = subMonths(new Date(), 1);
+  const [period, setPeriod] = useState({
+    from: format(startOfMonth(lastMonth), 'yyyy-MM-dd'),
+    to: format(endOfMonth(lastMonth), 'yyyy-MM-dd'),
+  });
+  const { isWeekendDay, getHoliday } = useWorkCalendar();
+
+  const handleExport = async (exportFormat: ExportFormat) => {
+    if (!period.from || !period.to || period.from > period.to) {
+      throw new Error('Please choose a valid pay period');
+    }
+    if (differenceInDays(parseISO(period.to), parseISO(period.from)) >= MAX_PERIOD_DAYS) {
+      throw new Error(`A pay period can span at most ${MAX_PERIOD_DAYS} days`);
+    }
+
+    // A pay period of company-wide records easily passes the per-request row cap
+    const [employees, records, leaves] = await Promise.all([
+      fetchAllRows<PayrollEmployee>((from, to) =>
+        supabase
+          .from('profiles')
+          .select('id, full_name, email, department, position, terminated_at')
+          .or(`terminated_at.is.null,terminated_at.gte.${period.from}`)
+          .order('full_name')
+          .order('id')
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from('attendance')
+          .select('employee_id, date, check_in, check_out')
+          .gte('date', period.from)
+          .lte('date', period.to)
+          .order('id')
+          .range(from, to)
+      ),
+      fetchAllRows((from, to) =>
+        supabase
+          .from('leaves')
+          .select('employee_id, start_date, end_date')
+          .eq('status', 'approved')
+          .lte('start_date', period.to)
+          .gte('end_date', period.from)
+          .order('id')
+          .range(from, to)
+      ),
+    ]);
+
+    const days = buildDailyAttendance({
+      employees,
+      records,
+      leaves,
+      fromDate: period.from,
+      toDate: period.to,
+      today: format(new Date(), 'yyyy-MM-dd'),
+      isNonWorkingDay: (day) => isWeekendDay(day) || !!getHoliday(day),
+    });
+
+    const rows = employees.map(employee => {
+      const own = days.filter(d => d.employee.id === employee.id);
+      const count = (status: string) => own.filter(d => d.status === status).length;
+      const workedMinutes = own.reduce(
+        (sum, d) => sum + (d.record ? getWorkedMinutes(d.record.check_in, d.record.check_out) : 0),
+        0
+      );
+
+      return [
+        employee.full_name,
+        employee.email,
+        employee.department,
+        employee.position,
+        count('present') + count('late'),
+        count('late'),
+        count('leave'),
+        count('absent'),
+        Math.round(workedMinutes / 6) / 10,
+        employee.terminated_at,
+      ];
+    });
+
+    await exportTable(
+      {
+        headers: ['Employee', 'Email', 'Department', 'Position', 'Days Present', 'Late Arrivals', 'Leave Days', 'Absences', 'Hours Worked', 'Termination Date'],
+        rows,
+      },
+      `payroll-attendance-${period.from}-to-${period.to}`,
+      exportFormat,
+      'Pay Period'
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Pay Period Export</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Company-wide attendance totals per employee, including staff who left during the period
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="pay_period_from">From</Label>
+            <Input
+              id="pay_period_from"
+              type="date"
+              value={period.from}
+              onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pay_period_to">To</Label>
+            <Input
+              id="pay_period_to"
+              type="date"
+              value={period.to}
+              onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+            />
+          </div>
+          <ExportMenu onExport={handleExport} label="Export Pay Period" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,81 @@
+import { ReactNode } from 'react';
+import { Link } from 'react-router-dom';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Cake, Calendar, MapPin, UserCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { UserAvatar } from '@/components/UserAvatar';
+import { useAuth } from '@/contexts/AuthContext';
+import { PublicDetails, formatBirthday, formatLocation } from '@/lib/personal-details';
+
+export interface DirectoryPerson {
+  id: string;
+  full_name: string;
+  department: string | null;
+  department_id: string | null;
+  position: string | null;
+  manager_id: string | null;
+  avatar_url: string | null;
+  hire_date: string | null;
+}
+
+interface PersonPopoverProps {
+  person: DirectoryPerson;
+  managerName?: string;
+  details?: PublicDetails;
+  children: ReactNode;
+}
+
+// Directory card for a colleague: only the privacy-safe profile fields plus
+// whatever personal details they chose to share
+export function PersonPopover({ person, managerName, details, children }: PersonPopoverProps) {
+  const { user, hasPermission } = useAuth();
+  const location = details && formatLocation(details);
+
+  const rows = [
+    { icon: UserCircle, label: 'Reports to', value: managerName },
+    { icon: MapPin, label: 'Location', value: location },
+    { icon: Cake, label: 'Birthday', value: details?.birthday && formatBirthday(details.birthday) },
+    { icon: Calendar, label: 'Joined', value: person.hire_date && format(parseISO(person.hire_date), 'MMM yyyy') },
+  ].filter(row => row.value);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-80">
+        <div className="flex items-center gap-3">
+          <UserAvatar name={person.full_name} avatarUrl={person.avatar_url} className="h-12 w-12" />
+          <div className="min-w-0">
+            <p className="font-medium truncate">
+              {person.full_name}
+              {details?.pronouns && <span className="text-muted-foreground font-normal"> ({details.pronouns})</span>}
+            </p>
+            <p className="text-sm text-muted-foreground truncate">
+              {[person.position || 'Employee', person.department].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+        </div>
+        {rows.length > 0 && (
+          <div className="mt-4 space-y-2 text-sm">
+            {rows.map(({ icon: Icon, label, value }) => (
+              <div key={label} className="flex items-center gap-2">
+                <Icon className="h-4 w-4 text-muted-foreground" />
+                <span className="text-muted-foreground">{label}:</span>
+                <span className="font-medium">{value}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {(person.id === user?.id || hasPermission('employee.view')) && (
+          <Button variant="outline" size="sm" className="mt-4 w-full" asChild>
+            {hasPermission('employee.view') ? (
+              <Link to={`/employees/${person.id}`}>View Full Profile</Link>
+            ) : (
+              <Link to="/profile">Open My Profile</Link>
+            )}
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { SHAREABLE_FIELDS, ShareableField } from '@/lib/personal-details';
+
+interface PersonalDetailsCardProps {
+  employeeId: string;
+}
+
+const EMPTY_DETAILS = {
+  pronouns: '',
+  date_of_birth: '',
+  address_line1: '',
+  address_line2: '',
+  city: '',
+  region: '',
+  postal_code: '',
+  country: '',
+  public_fields: ['pronouns'] as ShareableField[],
+};
+
+type DetailsForm = typeof EMPTY_DETAILS;
+
+const ADDRESS_FIELDS: Array<{ key: keyof Omit<DetailsForm, 'public_fields'>; label: string; wide?: boolean }> = [
+  { key: 'address_line1', label: 'Address Line 1', wide: true },
+  { key: 'address_line2', label: 'Address Line 2', wide: true },
+  { key: 'city', label: 'City' },
+  { key: 'region', label: 'State / Region' },
+  { key: 'postal_code', label: 'Postal Code' },
+  { key: 'country', label: 'Country' },
+];
+
+// Pronouns, date of birth and postal address, plus what colleagues may see
+export function PersonalDetailsCard({ employeeId }: PersonalDetailsCardProps) {
+  const [formData, setFormData] = useState<DetailsForm>(EMPTY_DETAILS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchDetails = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('employee_personal_details')
+        .select('*')
+        .eq('employee_id', employeeId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setFormData(data
+        ? Object.fromEntries(
+            Object.keys(EMPTY_DETAILS).map(key => [key, data[key] ?? EMPTY_DETAILS[key as keyof DetailsForm]])
+          ) as DetailsForm
+        : EMPTY_DETAILS);
+    } catch (error) {
+      toast.error('Failed to fetch personal details');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId]);
+
+  useEffect(() => {
+    fetchDetails();
+  }, [fetchDetails]);
+
+  const toggleShared = (field: ShareableField, checked: boolean) => {
+    setFormData({
+      ...formData,
+      public_fields: checked
+        ? [...formData.public_fields, field]
+        : formData.public_fields.filter(f => f !== field),
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const { public_fields, ...fields } = formData;
+      const { error } = await supabase.from('employee_personal_details').upsert({
+        employee_id: employeeId,
+        ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, value.trim() || null])),
+        public_fields,
+      });
+
+      if (error) throw error;
+
+      toast.success('Personal details saved');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save personal details');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-8 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {Array.from({ length: 4 }).map((_, i) => (
+            <Skeleton key={i} className="h-10 w-full" />
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Personal Details</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Visible only to the employee and HR, apart from the fields shared below
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="pronouns">Pronouns</Label>
+            <Input
+              id="pronouns"
+              value={formData.pronouns}
+              onChange={(e) => setFormData({ ...formData, pronouns: e.target.value })}
+              placeholder="e.g. she/her"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="date_of_birth">Date of Birth</Label>
+            <Input
+              id="date_of_birth"
+              type="date"
+              value={formData.date_of_birth}
+              onChange={(e) => setFormData({ ...formData, date_of_birth: e.target.value })}
+            />
+          </div>
+          {ADDRESS_FIELDS.map(({ key, label, wide }) => (
+            <div key={key} className={wide ? 'space-y-2 md:col-span-2' : 'space-y-2'}>
+              <Label htmlFor={key}>{label}</Label>
+              <Input
+                id={key}
+                value={formData[key]}
+                onChange={(e) => setFormData({ ...formData, [key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <Label>Visible to Colleagues</Label>
+          <div className="flex flex-wrap gap-6">
+            {SHAREABLE_FIELDS.map(field => (
+              <div key={field.value} className="flex items-center gap-2">
+                <Checkbox
+                  id={`share_${field.value}`}
+                  checked={formData.public_fields.includes(field.value)}
+                  onCheckedChange={(checked) => toggleShared(field.value, checked === true)}
+                />
+                <Label htmlFor={`share_${field.value}`} className="font-normal">{field.label}</Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">The full date of birth and street address are never shared</p>
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save Details'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  ProfileChangeRequest,
+  formatProfileChangeValue,
+  getProfileChangeFieldLabel,
+} from '@/lib/profile-changes';
+
+interface QueuedRequest extends ProfileChangeRequest {
+  profiles: { full_name: string };
+}
+
+interface ProfileChangeQueueProps {
+  onReviewed?: () => void;
+}
+
+// Pending profile change requests for HR; renders nothing when the queue is empty
+export function ProfileChangeQueue({ onReviewed }: ProfileChangeQueueProps) {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<QueuedRequest[]>([]);
+  const [selectedRequest, setSelectedRequest] = useState<QueuedRequest | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('profile_change_requests')
+        .select('*, profiles!profile_change_requests_employee_id_fkey(full_name)')
+        .eq('status', 'pending')
+        .order('created_at');
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch profile change requests');
+      console.error(error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleReview = async (approve: boolean) => {
+    if (!selectedRequest) return;
+
+    if (!approve && !comment.trim()) {
+      toast.error('Please add a comment explaining the rejection');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc('review_profile_change_request', {
+        _request_id: selectedRequest.id,
+        _approve: approve,
+        _comment: comment,
+      });
+
+      if (error) throw error;
+
+      toast.success(approve ? 'Change applied' : 'Change request rejected');
+      setSelectedRequest(null);
+      fetchRequests();
+      onReviewed?.();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to review change request');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Profile Change Requests ({requests.length})</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Employee</TableHead>
+                <TableHead>Field</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Requested</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {requests.map((request) => (
+                <TableRow key={request.id}>
+                  <TableCell className="font-medium">
+                    <Link to={`/employees/${request.employee_id}`} className="hover:underline">
+                      {request.profiles.full_name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{getProfileChangeFieldLabel(request.field)}</TableCell>
+                  <TableCell>
+                    <span className="text-muted-foreground">{formatProfileChangeValue(request.field, request.current_value)}</span>
+                    {' → '}
+                    <span className="font-medium">{formatProfileChangeValue(request.field, request.requested_value)}</span>
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate" title={request.reason}>{request.reason}</TableCell>
+                  <TableCell>{format(new Date(request.created_at), 'MMM dd, yyyy')}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={request.employee_id === user?.id}
+                      onClick={() => {
+                        setComment('');
+                        setSelectedRequest(request);
+                      }}
+                    >
+                      Review
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={!!selectedRequest} onOpenChange={(open) => !open && setSelectedRequest(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Review Change Request</DialogTitle>
+            <DialogDescription>
+              {selectedRequest?.profiles.full_name} wants to change their{' '}
+              {selectedRequest && getProfileChangeFieldLabel(selectedRequest.field).toLowerCase()}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedRequest && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-muted-foreground">Current</p>
+                  <p className="font-medium">{formatProfileChangeValue(selectedRequest.field, selectedRequest.current_value)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Requested</p>
+                  <p className="font-medium">{formatProfileChangeValue(selectedRequest.field, selectedRequest.requested_value)}</p>
+                </div>
+              </div>
+              <div>
+                <p className="text-muted-foreground">Reason</p>
+                <p>{selectedRequest.reason}</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="review_comment">Comment</Label>
+                <Textarea
+                  id="review_comment"
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Required when rejecting"
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => handleReview(false)} disabled={saving}>
+              Reject
+            </Button>
+            <Button onClick={() => handleReview(true)} disabled={saving}>
+              Approve & Apply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,278 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { FilePen } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDepartments } from '@/hooks/use-departments';
+import {
+  PROFILE_CHANGE_FIELDS,
+  ProfileChangeField,
+  ProfileChangeRequest,
+  formatProfileChangeValue,
+  getProfileChangeFieldLabel,
+} from '@/lib/profile-changes';
+
+interface ProfileChangeRequestsProps {
+  profile: {
+    id: string;
+    department: string | null;
+    position: string | null;
+    hire_date: string | null;
+  };
+}
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+export function ProfileChangeRequests({ profile }: ProfileChangeRequestsProps) {
+  const { departments } = useDepartments();
+  const [requests, setRequests] = useState<ProfileChangeRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState<{ field: ProfileChangeField; value: string; reason: string }>({
+    field: 'position',
+    value: '',
+    reason: '',
+  });
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('profile_change_requests')
+        .select('*')
+        .eq('employee_id', profile.id)
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      toast.error('Failed to fetch change requests');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [profile.id]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const pendingFields = requests.filter(r => r.status === 'pending').map(r => r.field);
+
+  const openDialog = () => {
+    const field = PROFILE_CHANGE_FIELDS.find(f => !pendingFields.includes(f.value))?.value || 'position';
+    setFormData({ field, value: '', reason: '' });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.reason.trim()) {
+      toast.error('Please explain why this should change');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('profile_change_requests').insert({
+        employee_id: profile.id,
+        field: formData.field,
+        requested_value: formData.value || null,
+        reason: formData.reason.trim(),
+      });
+
+      if (error) {
+        if (error.code === '23505') throw new Error('You already have a pending request for this field');
+        throw error;
+      }
+
+      toast.success('Change request sent to HR');
+      setIsDialogOpen(false);
+      fetchRequests();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to submit change request');
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (requestId: string) => {
+    try {
+      const { error } = await supabase.from('profile_change_requests').delete().eq('id', requestId);
+
+      if (error) throw error;
+
+      toast.success('Change request withdrawn');
+      fetchRequests();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to withdraw change request');
+      console.error(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Change Requests</CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">Department, position and hire date are managed by HR</p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={openDialog}
+          disabled={pendingFields.length === PROFILE_CHANGE_FIELDS.length}
+        >
+          <FilePen className="h-4 w-4 mr-2" />
+          Request a Change
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 2 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-muted-foreground text-center py-6">No change requests yet</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium">
+                    {getProfileChangeFieldLabel(request.field)}:{' '}
+                    <span className="text-muted-foreground line-through">
+                      {formatProfileChangeValue(request.field, request.current_value)}
+                    </span>{' '}
+                    → {formatProfileChangeValue(request.field, request.requested_value)}
+                  </p>
+                  <p className="text-muted-foreground">{request.reason}</p>
+                  {request.review_comment && (
+                    <p className="text-muted-foreground">HR: {request.review_comment}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    Requested {format(new Date(request.created_at), 'MMM dd, yyyy')}
+                  </p>
+                </div>
+                <div className="flex flex-col items-end gap-2">
+                  <Badge variant={statusVariants[request.status]} className="capitalize">
+                    {request.status}
+                  </Badge>
+                  {request.status === 'pending' && (
+                    <Button variant="ghost" size="sm" onClick={() => handleWithdraw(request.id)}>
+                      Withdraw
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request a Change</DialogTitle>
+            <DialogDescription>HR will review your request before it is applied</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Field</Label>
+              <Select
+                value={formData.field}
+                onValueChange={(value) => setFormData({ ...formData, field: value as ProfileChangeField, value: '' })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROFILE_CHANGE_FIELDS.map(field => (
+                    <SelectItem key={field.value} value={field.value} disabled={pendingFields.includes(field.value)}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Currently: {formatProfileChangeValue(formData.field, profile[formData.field])}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="change_value">New Value</Label>
+              {formData.field === 'department' ? (
+                <Select
+                  value={formData.value || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, value: value === 'none' ? '' : value })}
+                >
+                  <SelectTrigger id="change_value">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No department</SelectItem>
+                    {departments.map(department => (
+                      <SelectItem key={department.id} value={department.name}>{department.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id="change_value"
+                  type={formData.field === 'hire_date' ? 'date' : 'text'}
+                  value={formData.value}
+                  onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                />
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="change_reason">Reason</Label>
+              <Textarea
+                id="change_reason"
+                value={formData.reason}
+                onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                placeholder="e.g. Promoted in March; contract attached to my HR file"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving ? 'Sending...' : 'Send Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { ReactNode } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react';
+import { TableHead } from '@/components/ui/table';
+import { SortState } from '@/lib/table-query';
+
+interface SortableTableHeadProps<Column extends string> {
+  column: Column;
+  sort: SortState<Column>;
+  onSort: (sort: SortState<Column>) => void;
+  children: ReactNode;
+  className?: string;
+}
+
+// Clicking the active column flips its direction; any other column sorts ascending
+export function SortableTableHead<Column extends string>({
+  column,
+  sort,
+  onSort,
+  children,
+  className,
+}: SortableTableHeadProps<Column>) {
+  const isActive = sort.column === column;
+  const Icon = !isActive ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead className={className} aria-sort={isActive ? (sort.ascending ? 'ascending' : 'descending') : undefined}>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 hover:text-foreground"
+        onClick={() => onSort({ column, ascending: isActive ? !sort.ascending : true })}
+      >
+        {children}
+        <Icon className={isActive ? 'h-3 w-3' : 'h-3 w-3 opacity-50'} />
+      </button>
+    </TableHead>
+  );
+}
@@ -0,0 +1,79 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { cn } from '@/lib/utils';
+import { PAGE_SIZE } from '@/lib/table-query';
+
+interface TablePaginationProps {
+  page: number;
+  total: number;
+  pageSize?: number;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages around the current one, with gaps marked as null
+const getPageItems = (page: number, pageCount: number) => {
+  const pages = [...new Set([0, page - 1, page, page + 1, pageCount - 1])]
+    .filter(p => p >= 0 && p < pageCount)
+    .sort((a, b) => a - b);
+
+  return pages.flatMap((p, i) => (i > 0 && p - pages[i - 1] > 1 ? [null, p] : [p]));
+};
+
+// Page links plus a row count for server-paged tables; pages are zero-based
+export function TablePagination({ page, total, pageSize = PAGE_SIZE, onPageChange }: TablePaginationProps) {
+  const pageCount = Math.ceil(total / pageSize);
+  if (total === 0) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 0 && target < pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-4 pt-4">
+      <p className="text-sm text-muted-foreground whitespace-nowrap">
+        Showing {page * pageSize + 1}–{Math.min((page + 1) * pageSize, total)} of {total}
+      </p>
+      {pageCount > 1 && (
+        <Pagination className="mx-0 w-auto justify-end">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious
+                href="#"
+                onClick={goTo(page - 1)}
+                aria-disabled={page === 0}
+                className={cn(page === 0 && 'pointer-events-none opacity-50')}
+              />
+            </PaginationItem>
+            {getPageItems(page, pageCount).map((item, i) => (
+              <PaginationItem key={item ?? `gap-${i}`}>
+                {item === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink href="#" isActive={item === page} onClick={goTo(item)}>
+                    {item + 1}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext
+                href="#"
+                onClick={goTo(page + 1)}
+                aria-disabled={page >= pageCount - 1}
+                className={cn(page >= pageCount - 1 && 'pointer-events-none opacity-50')}
+              />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+    </div>
+  );
+}
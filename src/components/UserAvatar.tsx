@@ -0,0 +1,26 @@
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+
+interface UserAvatarProps {
+  name?: string | null;
+  avatarUrl?: string | null;
+  className?: string;
+  fallbackClassName?: string;
+}
+
+function getInitials(name?: string | null) {
+  if (!name?.trim()) return 'U';
+  return name.trim().split(/\s+/).map(n => n[0]).join('').toUpperCase().slice(0, 2);
+}
+
+// Profile picture with an initials fallback while loading or when none is set
+export function UserAvatar({ name, avatarUrl, className, fallbackClassName }: UserAvatarProps) {
+  return (
+    <Avatar className={className}>
+      {avatarUrl && <AvatarImage src={avatarUrl} alt={name || undefined} className="object-cover" />}
+      <AvatarFallback className={cn('bg-primary text-primary-foreground', fallbackClassName)}>
+        {getInitials(name)}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -2,11 +2,21 @@ import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { AppRole, Permission } from '@/lib/permissions';
+
+interface UserProfile {
+  full_name: string;
+  avatar_url: string | null;
+}
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
-  userRole: 'admin' | 'employee' | null;
+  profile: UserProfile | null;
+  refreshProfile: () => Promise<void>;
+  userRole: AppRole | null;
+  permissions: Permission[];
+  hasPermission: (permission: Permission) => boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
@@ -18,7 +28,9 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [userRole, setUserRole] = useState<'admin' | 'employee' | null>(null);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [userRole, setUserRole] = useState<AppRole | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -32,20 +44,24 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         if (session?.user) {
           setTimeout(() => {
             fetchUserRole(session.user.id);
+            fetchProfile(session.user.id);
           }, 0);
         } else {
+          setProfile(null);
           setUserRole(null);
+          setPermissions([]);
         }
       }
     );
 
     // Check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
       
+      // Permissions must be known before permission-gated routes render
       if (session?.user) {
-        fetchUserRole(session.user.id);
+        await Promise.all([fetchUserRole(session.user.id), fetchProfile(session.user.id)]);
       }
       setLoading(false);
     });
@@ -62,13 +78,42 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         .single();
       
       if (error) throw error;
-      setUserRole(data?.role as 'admin' | 'employee');
+      setUserRole(data?.role as AppRole);
+
+      const { data: permissionsData, error: permissionsError } = await supabase
+        .from('role_permissions')
+        .select('permission')
+        .eq('role', data?.role);
+
+      if (permissionsError) throw permissionsError;
+      setPermissions((permissionsData || []).map(p => p.permission as Permission));
     } catch (error) {
       console.error('Error fetching user role:', error);
       setUserRole(null);
+      setPermissions([]);
     }
   };
 
+  const fetchProfile = async (userId: string) => {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('full_name, avatar_url')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching profile:', error);
+      return;
+    }
+    setProfile(data);
+  };
+
+  const refreshProfile = async () => {
+    if (user) await fetchProfile(user.id);
+  };
+
+  const hasPermission = (permission: Permission) => permissions.includes(permission);
+
   const signIn = async (email: string, password: string) => {
     try {
       const { error } = await supabase.auth.signInWithPassword({
@@ -110,7 +155,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       await supabase.auth.signOut();
       setUser(null);
       setSession(null);
+      setProfile(null);
       setUserRole(null);
+      setPermissions([]);
     } catch (error) {
       console.error('Error signing out:', error);
       toast.error('Failed to sign out');
@@ -118,7 +165,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, userRole, loading, signIn, signUp, signOut }}>
+    <AuthContext.Provider value={{ user, session, profile, refreshProfile, userRole, permissions, hasPermission, loading, signIn, signUp, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,41 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LeaveBalance {
+  leave_type: string;
+  entitled: number;
+  used: number;
+  pending: number;
+  remaining: number;
+}
+
+export function useLeaveBalances(employeeId: string | undefined, year: number = new Date().getFullYear()) {
+  const [balances, setBalances] = useState<LeaveBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    if (!employeeId) return;
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('get_leave_balances', {
+        _employee_id: employeeId,
+        _year: year,
+      });
+
+      if (error) throw error;
+      setBalances(data || []);
+    } catch (error) {
+      console.error('Error fetching leave balances:', error);
+      setBalances([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [employeeId, year]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { balances, loading, refresh };
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_HOURS_PER_DAY, DEFAULT_WEEKEND_DAYS } from '@/lib/leaves';
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+export function useWorkCalendar() {
+  const [weekendDays, setWeekendDays] = useState<number[]>(DEFAULT_WEEKEND_DAYS);
+  const [hoursPerDay, setHoursPerDay] = useState(DEFAULT_HOURS_PER_DAY);
+  const [holidays, setHolidays] = useState<Holiday[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [settingsData, holidaysData] = await Promise.all([
+        supabase.from('work_settings').select('weekend_days, hours_per_day').maybeSingle(),
+        supabase.from('holidays').select('id, date, name').order('date'),
+      ]);
+
+      if (settingsData.error) throw settingsData.error;
+      if (holidaysData.error) throw holidaysData.error;
+
+      setWeekendDays(settingsData.data?.weekend_days || DEFAULT_WEEKEND_DAYS);
+      setHoursPerDay(Number(settingsData.data?.hours_per_day) || DEFAULT_HOURS_PER_DAY);
+      setHolidays(holidaysData.data || []);
+    } catch (error) {
+      console.error('Error fetching work calendar:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const isWeekendDay = useCallback((day: Date) => weekendDays.includes(day.getDay()), [weekendDays]);
+
+  const getHoliday = useCallback(
+    (day: Date) => holidays.find(h => h.date === format(day, 'yyyy-MM-dd')),
+    [holidays],
+  );
+
+  return { weekendDays, hoursPerDay, holidays, loading, refresh, isWeekendDay, getHoliday };
+}
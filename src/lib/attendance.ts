@@ -0,0 +1,70 @@
+import { differenceInMinutes, eachDayOfInterval, format, parseISO } from 'date-fns';
+
+// Minutes between check-in and check-out; an open record counts up to `now`
+export function getWorkedMinutes(checkIn: string, checkOut: string | null, now: Date = new Date()) {
+  const end = checkOut ? new Date(checkOut) : now;
+  return Math.max(0, differenceInMinutes(end, new Date(checkIn)));
+}
+
+export function formatWorkedDuration(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return `${hours}h ${mins.toString().padStart(2, '0')}m`;
+}
+
+// Check-ins after this local time are flagged as late in the admin register
+export const LATE_AFTER = { hours: 9, minutes: 30 };
+
+export function isLateCheckIn(checkIn: string) {
+  const time = new Date(checkIn);
+  const minutes = time.getHours() * 60 + time.getMinutes();
+  return minutes > LATE_AFTER.hours * 60 + LATE_AFTER.minutes;
+}
+
+export type AttendanceStatus = 'present' | 'late' | 'absent' | 'leave';
+
+interface DailyAttendanceInput<E, R> {
+  employees: E[];
+  records: R[];
+  leaves: Array<{ employee_id: string; start_date: string; end_date: string }>;
+  fromDate: string;
+  toDate: string;
+  today: string;
+  isNonWorkingDay: (day: Date) => boolean;
+}
+
+// One entry per employee per working day up to today, including days with no record.
+// Days after an employee's termination date are left out.
+export function buildDailyAttendance<
+  E extends { id: string; terminated_at?: string | null },
+  R extends { employee_id: string; date: string; check_in: string },
+>({ employees, records, leaves, fromDate, toDate, today, isNonWorkingDay }: DailyAttendanceInput<E, R>) {
+  const recordsByKey = new Map(records.map(r => [`${r.employee_id}:${r.date}`, r]));
+  const result: Array<{ employee: E; date: string; record: R | null; status: AttendanceStatus }> = [];
+
+  eachDayOfInterval({ start: parseISO(fromDate), end: parseISO(toDate) }).forEach(day => {
+    const date = format(day, 'yyyy-MM-dd');
+    if (date > today) return;
+
+    employees.forEach(employee => {
+      const record = recordsByKey.get(`${employee.id}:${date}`) || null;
+      let status: AttendanceStatus;
+
+      if (record) {
+        status = isLateCheckIn(record.check_in) ? 'late' : 'present';
+      } else if (isNonWorkingDay(day)) {
+        return;
+      } else if (employee.terminated_at && date > employee.terminated_at) {
+        return;
+      } else if (leaves.some(l => l.employee_id === employee.id && l.start_date <= date && l.end_date >= date)) {
+        status = 'leave';
+      } else {
+        status = 'absent';
+      }
+
+      result.push({ employee, date, record, status });
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { neutralizeFormula, parseCsv, toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('quotes values containing commas, quotes or line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'line\nbreak', null, 3]])).toBe('"a,b","say ""hi""","line\nbreak",,3');
+  });
+
+  it('keeps text that looks like a formula from being run', () => {
+    expect(toCsv([['=HYPERLINK("http://x")', '+1 555 0100', '-dash', '@SUM(A1)', 'plain']])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+1 555 0100,'-dash,'@SUM(A1),plain`
+    );
+  });
+
+  it('leaves numbers alone', () => {
+    expect(toCsv([[-4.5, 0]])).toBe('-4.5,0');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Name', 'Note'], ['Ann, Jr.', 'said "ok"\r\non two lines']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('neutralizeFormula', () => {
+  it('only touches strings with a formula prefix', () => {
+    expect(neutralizeFormula('=1+1')).toBe("'=1+1");
+    expect(neutralizeFormula('a=1')).toBe('a=1');
+    expect(neutralizeFormula(-1)).toBe(-1);
+    expect(neutralizeFormula(null)).toBe(null);
+  });
+});
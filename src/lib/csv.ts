@@ -0,0 +1,70 @@
+// Minimal RFC 4180 parser: quoted fields, escaped quotes and CRLF line endings
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines, including the trailing newline most editors add
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+// Spreadsheet apps run text starting with these as a formula, so user-entered
+// values like "=HYPERLINK(...)" are prefixed with a quote to keep them as text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function neutralizeFormula<T>(value: T) {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvValue(value: string | number | null | undefined) {
+  const text = value === null || value === undefined ? '' : String(neutralizeFormula(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Array<Array<string | number | null | undefined>>) {
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking straight away can cancel the download before the browser starts it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
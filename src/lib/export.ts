@@ -0,0 +1,88 @@
+import { downloadFile, toCsv } from '@/lib/csv';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportCell = string | number | null | undefined;
+
+export interface ExportTable {
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+// Writes a table as CSV or XLSX; the spreadsheet library is only loaded when needed
+export async function exportTable(table: ExportTable, filename: string, format: ExportFormat, sheetName = 'Export') {
+  if (format === 'csv') {
+    // Leading BOM so Excel opens UTF-8 names correctly
+    downloadFile(`\uFEFF${toCsv([table.headers, ...table.rows])}`, `${filename}.csv`, 'text/csv;charset=utf-8');
+    return;
+  }
+
+  const { Workbook } = await import('exceljs');
+  const workbook = new Workbook();
+  const sheet = workbook.addWorksheet(sheetName.slice(0, 31));
+  // Plain values are written as string or number cells, never as formulas,
+  // so unlike CSV they need no escaping
+  sheet.addRows([table.headers, ...table.rows.map(row => row.map(cell => cell ?? ''))]);
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadFile(buffer, `${filename}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+}
+
+export type ImageFormat = 'svg' | 'png';
+
+// Copies the computed theme colours onto the clone so the file renders the
+// same outside the app, where the Tailwind classes and CSS variables are gone
+function inlineSvgStyles(source: Element, target: Element) {
+  const style = getComputedStyle(source);
+  ['fill', 'stroke', 'stroke-width', 'font-family', 'font-size', 'font-weight', 'opacity'].forEach(property => {
+    target.setAttribute(property, style.getPropertyValue(property));
+  });
+  target.removeAttribute('class');
+  Array.from(source.children).forEach((child, i) => inlineSvgStyles(child, target.children[i]));
+}
+
+// Saves an on-screen SVG as a standalone SVG file or a 2x PNG
+export async function exportSvgImage(svg: SVGSVGElement, filename: string, format: ImageFormat, background: string) {
+  const width = Number(svg.getAttribute('width'));
+  const height = Number(svg.getAttribute('height'));
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineSvgStyles(svg, clone);
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+
+  const backdrop = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+  backdrop.setAttribute('width', '100%');
+  backdrop.setAttribute('height', '100%');
+  backdrop.setAttribute('fill', background);
+  clone.insertBefore(backdrop, clone.firstChild);
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  if (format === 'svg') {
+    downloadFile(markup, `${filename}.svg`, 'image/svg+xml');
+    return;
+  }
+
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise((resolve, reject) => {
+      image.onload = resolve;
+      image.onerror = () => reject(new Error('Failed to render chart image'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser');
+    context.scale(2, 2);
+    context.drawImage(image, 0, 0, width, height);
+
+    // Browsers return null when the canvas exceeds their size limit
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Chart is too large for PNG; export as SVG instead');
+    downloadFile(blob, `${filename}.png`, 'image/png');
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,17 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Invokes an edge function and surfaces the `{ error }` message it responded with
+export async function invokeFunction<T>(name: string, body: unknown): Promise<T> {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const payload = await error.context.json().catch(() => null);
+      throw new Error(payload?.error || error.message);
+    }
+    throw error;
+  }
+
+  return data as T;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WEEKEND_DAYS, countWorkingDays } from './leaves';
+
+describe('countWorkingDays', () => {
+  it('skips both Saturday and Sunday', () => {
+    // Friday to Monday
+    expect(countWorkingDays('2026-10-16', '2026-10-19', DEFAULT_WEEKEND_DAYS, [])).toBe(2);
+  });
+
+  it('skips holidays', () => {
+    expect(countWorkingDays('2026-10-12', '2026-10-16', DEFAULT_WEEKEND_DAYS, ['2026-10-14'])).toBe(4);
+  });
+
+  it('follows a custom working week', () => {
+    // Friday and Saturday weekend
+    expect(countWorkingDays('2026-10-16', '2026-10-19', [5, 6], [])).toBe(2);
+    expect(countWorkingDays('2026-10-17', '2026-10-17', [5, 6], [])).toBe(0);
+  });
+
+  it('returns 0 when the range is reversed', () => {
+    expect(countWorkingDays('2026-10-19', '2026-10-16', DEFAULT_WEEKEND_DAYS, [])).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { eachDayOfInterval, format, parseISO } from 'date-fns';
+
+export const LEAVE_TYPES = [
+  { value: 'sick', label: 'Sick Leave' },
+  { value: 'vacation', label: 'Vacation' },
+  { value: 'personal', label: 'Personal Leave' },
+  { value: 'other', label: 'Other' },
+] as const;
+
+export type LeaveType = (typeof LEAVE_TYPES)[number]['value'];
+
+export function getLeaveTypeLabel(leaveType: string) {
+  return LEAVE_TYPES.find(t => t.value === leaveType)?.label || leaveType;
+}
+
+export const LEAVE_DURATIONS = [
+  { value: 'full_day', label: 'Full day(s)' },
+  { value: 'half_day', label: 'Half day' },
+  { value: 'hours', label: 'Hours' },
+] as const;
+
+export type LeaveDuration = (typeof LEAVE_DURATIONS)[number]['value'];
+
+// Fractional days print without trailing zeros, e.g. 0.5 or 0.25
+export function formatDays(days: number) {
+  return `${Number(days)} ${Number(days) === 1 ? 'day' : 'days'}`;
+}
+
+export function formatLeaveDuration(leave: {
+  days_count: number;
+  duration_type?: string;
+  half_day_period?: string | null;
+  hours?: number | null;
+}) {
+  if (leave.duration_type === 'half_day') {
+    return `Half day (${leave.half_day_period?.toUpperCase()})`;
+  }
+  if (leave.duration_type === 'hours') {
+    return `${Number(leave.hours)}h (${formatDays(leave.days_count)})`;
+  }
+  return formatDays(leave.days_count);
+}
+
+// Day numbers follow Date.getDay() and Postgres EXTRACT(DOW): 0 = Sunday
+export const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Client-side preview of public.count_working_days; the server value is authoritative
+export function countWorkingDays(startDate: string, endDate: string, weekendDays: number[], holidayDates: string[]) {
+  const start = parseISO(startDate);
+  const end = parseISO(endDate);
+  if (end < start) return 0;
+
+  const holidaySet = new Set(holidayDates);
+  return eachDayOfInterval({ start, end }).filter(
+    day => !weekendDays.includes(day.getDay()) && !holidaySet.has(format(day, 'yyyy-MM-dd')),
+  ).length;
+}
@@ -0,0 +1,129 @@
+export interface OrgPerson {
+  id: string;
+  full_name: string;
+  position: string | null;
+  department: string | null;
+  manager_id: string | null;
+}
+
+export interface OrgNode<P extends OrgPerson = OrgPerson> {
+  person: P;
+  children: OrgNode<P>[];
+  depth: number;
+}
+
+export const ORG_NODE_WIDTH = 200;
+export const ORG_NODE_HEIGHT = 64;
+const H_GAP = 24;
+const V_GAP = 56;
+
+// Builds the reporting forest. Anyone whose manager is missing from `people`
+// becomes a root, and a manager loop is broken at the first person reached.
+export function buildOrgTree<P extends OrgPerson>(people: P[]) {
+  const ids = new Set(people.map(p => p.id));
+  const reports = new Map<string, P[]>();
+
+  people.forEach(person => {
+    if (!person.manager_id || !ids.has(person.manager_id)) return;
+    reports.set(person.manager_id, [...(reports.get(person.manager_id) || []), person]);
+  });
+
+  const visited = new Set<string>();
+  const build = (person: P, depth: number): OrgNode<P> => {
+    visited.add(person.id);
+    return {
+      person,
+      depth,
+      children: (reports.get(person.id) || [])
+        .filter(p => !visited.has(p.id))
+        .sort((a, b) => a.full_name.localeCompare(b.full_name))
+        .map(p => build(p, depth + 1)),
+    };
+  };
+
+  const byName = (a: P, b: P) => a.full_name.localeCompare(b.full_name);
+  const roots = people
+    .filter(p => !p.manager_id || !ids.has(p.manager_id))
+    .sort(byName)
+    .map(p => build(p, 0));
+
+  people
+    .filter(p => !visited.has(p.id))
+    .sort(byName)
+    .forEach(p => {
+      if (!visited.has(p.id)) roots.push(build(p, 0));
+    });
+
+  return roots;
+}
+
+// Ids of everyone above the given people in the tree
+export function getAncestorIds(people: OrgPerson[], ids: string[]) {
+  const byId = new Map(people.map(p => [p.id, p]));
+  const ancestors = new Set<string>();
+
+  ids.forEach(id => {
+    let managerId = byId.get(id)?.manager_id;
+    while (managerId && byId.has(managerId) && !ancestors.has(managerId)) {
+      ancestors.add(managerId);
+      managerId = byId.get(managerId)?.manager_id;
+    }
+  });
+
+  return ancestors;
+}
+
+export interface PositionedOrgNode<P extends OrgPerson = OrgPerson> {
+  node: OrgNode<P>;
+  x: number;
+  y: number;
+  collapsed: boolean;
+}
+
+// Top-down layout: each subtree is as wide as its visible children, with the
+// parent centred above them. Coordinates are the top-left corner of each box.
+export function layoutOrgChart<P extends OrgPerson>(roots: OrgNode<P>[], collapsed: Set<string>) {
+  const nodes: PositionedOrgNode<P>[] = [];
+  const links: Array<{ from: PositionedOrgNode<P>; to: PositionedOrgNode<P> }> = [];
+  let height = 0;
+
+  const visibleChildren = (node: OrgNode<P>) => (collapsed.has(node.person.id) ? [] : node.children);
+
+  const widths = new Map<string, number>();
+  const childrenWidth = (node: OrgNode<P>) => {
+    const children = visibleChildren(node);
+    return children.reduce((sum, child) => sum + widthOf(child), 0) + H_GAP * Math.max(0, children.length - 1);
+  };
+  const widthOf = (node: OrgNode<P>): number => {
+    if (!widths.has(node.person.id)) widths.set(node.person.id, Math.max(ORG_NODE_WIDTH, childrenWidth(node)));
+    return widths.get(node.person.id) as number;
+  };
+
+  const place = (node: OrgNode<P>, left: number, depth: number) => {
+    const width = widthOf(node);
+    const positioned: PositionedOrgNode<P> = {
+      node,
+      x: left + (width - ORG_NODE_WIDTH) / 2,
+      y: depth * (ORG_NODE_HEIGHT + V_GAP),
+      collapsed: collapsed.has(node.person.id) && node.children.length > 0,
+    };
+    nodes.push(positioned);
+    height = Math.max(height, positioned.y + ORG_NODE_HEIGHT);
+
+    let childLeft = left + (width - childrenWidth(node)) / 2;
+    visibleChildren(node).forEach(child => {
+      links.push({ from: positioned, to: place(child, childLeft, depth + 1) });
+      childLeft += widthOf(child) + H_GAP;
+    });
+
+    return positioned;
+  };
+
+  let left = 0;
+  roots.forEach(root => {
+    place(root, left, 0);
+    left += widthOf(root) + H_GAP;
+  });
+
+  return { nodes, links, width: Math.max(0, left - H_GAP), height };
+}
@@ -0,0 +1,31 @@
+export const APP_ROLES = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'hr', label: 'HR' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'payroll', label: 'Payroll' },
+  { value: 'auditor', label: 'Auditor (read-only)' },
+  { value: 'employee', label: 'Employee' },
+] as const;
+
+export type AppRole = (typeof APP_ROLES)[number]['value'];
+
+export function getRoleLabel(role: string) {
+  return APP_ROLES.find(r => r.value === role)?.label || role;
+}
+
+// Mirrors the keys seeded into public.permissions
+export const PERMISSIONS = [
+  'employee.view',
+  'employee.edit',
+  'role.assign',
+  'leave.view_all',
+  'leave.approve',
+  'leave.manage',
+  'attendance.view_all',
+  'attendance.correct',
+  'attendance.export',
+  'calendar.manage',
+  'department.manage',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
@@ -0,0 +1,29 @@
+import { format } from 'date-fns';
+
+// Personal fields an employee may share with colleagues; everything else is
+// visible only to them and HR
+export const SHAREABLE_FIELDS = [
+  { value: 'pronouns', label: 'Pronouns' },
+  { value: 'birthday', label: 'Birthday (day and month)' },
+  { value: 'location', label: 'City and country' },
+] as const;
+
+export type ShareableField = (typeof SHAREABLE_FIELDS)[number]['value'];
+
+export interface PublicDetails {
+  employee_id: string;
+  pronouns: string | null;
+  birthday: string | null;
+  city: string | null;
+  country: string | null;
+}
+
+// Birthdays are shared as MM-DD so the year never leaves the server
+export function formatBirthday(birthday: string) {
+  const [month, day] = birthday.split('-').map(Number);
+  return format(new Date(2000, month - 1, day), 'MMMM d');
+}
+
+export function formatLocation(details: { city: string | null; country: string | null }) {
+  return [details.city, details.country].filter(Boolean).join(', ');
+}
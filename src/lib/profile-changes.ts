@@ -0,0 +1,32 @@
+import { format, parseISO } from 'date-fns';
+
+// Profile fields employees cannot edit themselves; changes go through HR review
+export const PROFILE_CHANGE_FIELDS = [
+  { value: 'department', label: 'Department' },
+  { value: 'position', label: 'Position' },
+  { value: 'hire_date', label: 'Hire Date' },
+] as const;
+
+export type ProfileChangeField = (typeof PROFILE_CHANGE_FIELDS)[number]['value'];
+
+export interface ProfileChangeRequest {
+  id: string;
+  employee_id: string;
+  field: ProfileChangeField;
+  current_value: string | null;
+  requested_value: string | null;
+  reason: string;
+  status: 'pending' | 'approved' | 'rejected';
+  review_comment: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export function getProfileChangeFieldLabel(field: string) {
+  return PROFILE_CHANGE_FIELDS.find(f => f.value === field)?.label || field;
+}
+
+export function formatProfileChangeValue(field: string, value: string | null) {
+  if (!value) return '-';
+  return field === 'hire_date' ? format(parseISO(value), 'MMM dd, yyyy') : value;
+}
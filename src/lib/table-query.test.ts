@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAllRows, getPageRange, toPrefixTsQuery } from './table-query';
+
+describe('getPageRange', () => {
+  it('returns an inclusive range for a zero-based page', () => {
+    expect(getPageRange(0, 25)).toEqual([0, 24]);
+    expect(getPageRange(2, 25)).toEqual([50, 74]);
+  });
+});
+
+describe('toPrefixTsQuery', () => {
+  it('prefix-matches every term', () => {
+    expect(toPrefixTsQuery('  ali smi ')).toBe('ali:* & smi:*');
+  });
+
+  it('drops tsquery operators', () => {
+    expect(toPrefixTsQuery('a&b | !(c)')).toBe('ab:* & c:*');
+    expect(toPrefixTsQuery('&& ::')).toBe('');
+  });
+});
+
+describe('fetchAllRows', () => {
+  const source = Array.from({ length: 25 }, (_, i) => i);
+  const fetchBatch = async (from: number, to: number) => ({ data: source.slice(from, to + 1), error: null });
+
+  it('keeps reading until a short batch comes back', async () => {
+    expect(await fetchAllRows(fetchBatch, 10)).toEqual(source);
+  });
+
+  it('stops after an empty batch when the total is a multiple of the batch size', async () => {
+    const requested: number[] = [];
+    const rows = await fetchAllRows(async (from, to) => {
+      requested.push(from);
+      return fetchBatch(from, to);
+    }, 5);
+
+    expect(rows).toEqual(source);
+    expect(requested).toEqual([0, 5, 10, 15, 20, 25]);
+  });
+
+  it('throws the first error', async () => {
+    const error = new Error('boom');
+    await expect(fetchAllRows(async () => ({ data: null, error }))).rejects.toBe(error);
+  });
+});
@@ -0,0 +1,45 @@
+// Shared helpers for tables that page, sort and search on the server
+
+export const PAGE_SIZE = 25;
+
+export interface SortState<Column extends string> {
+  column: Column;
+  ascending: boolean;
+}
+
+// Inclusive row range for a zero-based page, as expected by .range()
+export function getPageRange(page: number, pageSize = PAGE_SIZE): [number, number] {
+  const from = page * pageSize;
+  return [from, from + pageSize - 1];
+}
+
+// Turns free text into a prefix tsquery ("ali smi" -> "ali:* & smi:*") so
+// search-as-you-type matches partial words; returns '' when nothing is left
+export function toPrefixTsQuery(input: string) {
+  return input
+    .split(/\s+/)
+    .map(term => term.replace(/[^\p{L}\p{N}@._-]/gu, '').replace(/^[._-]+|[._-]+$/g, ''))
+    .filter(Boolean)
+    .map(term => `${term}:*`)
+    .join(' & ');
+}
+
+// PostgREST returns at most 1000 rows per request, silently dropping the rest
+export const FETCH_BATCH_SIZE = 1000;
+
+// Reads every row of a large query a batch at a time until a short batch comes
+// back. The query must have a stable order, e.g. ending with .order('id').
+export async function fetchAllRows<T>(
+  fetchBatch: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  batchSize = FETCH_BATCH_SIZE
+) {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += batchSize) {
+    const { data, error } = await fetchBatch(from, from + batchSize - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    if (!data || data.length < batchSize) return rows;
+  }
+}
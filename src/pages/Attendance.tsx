@@ -4,31 +4,56 @@ import { Button } from '@/components/ui/button';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
-import { Clock, CheckCircle } from 'lucide-react';
+import { Clock, CheckCircle, LogIn, LogOut } from 'lucide-react';
 import { format } from 'date-fns';
+import { getWorkedMinutes, formatWorkedDuration } from '@/lib/attendance';
+import { AttendanceHistory } from '@/components/AttendanceHistory';
+import { AttendanceRegister } from '@/components/AttendanceRegister';
+import { PayPeriodExport } from '@/components/PayPeriodExport';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+
+interface AttendanceRecord {
+  id: string;
+  date: string;
+  check_in: string;
+  check_out: string | null;
+}
 
 export default function Attendance() {
-  const { user, userRole } = useAuth();
-  const [hasMarkedToday, setHasMarkedToday] = useState(false);
+  const { user, hasPermission } = useAuth();
+  const canViewRegister = hasPermission('attendance.view_all');
+  const [todayRecord, setTodayRecord] = useState<AttendanceRecord | null>(null);
   const [loading, setLoading] = useState(false);
+  const [now, setNow] = useState(new Date());
+
+  const isCheckedIn = !!todayRecord && !todayRecord.check_out;
+  const isCheckedOut = !!todayRecord?.check_out;
 
   useEffect(() => {
     checkTodayAttendance();
   }, [user]);
 
+  // Keep the running total ticking while the employee is on the clock
+  useEffect(() => {
+    if (!isCheckedIn) return;
+    setNow(new Date());
+    const interval = setInterval(() => setNow(new Date()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [isCheckedIn]);
+
   const checkTodayAttendance = async () => {
     try {
       const today = new Date().toISOString().split('T')[0];
       const { data } = await supabase
         .from('attendance')
-        .select('id')
+        .select('id, date, check_in, check_out')
         .eq('employee_id', user?.id)
         .eq('date', today)
         .single();
 
-      setHasMarkedToday(!!data);
+      setTodayRecord(data);
     } catch (error) {
-      setHasMarkedToday(false);
+      setTodayRecord(null);
     }
   };
 
@@ -37,17 +62,21 @@ export default function Attendance() {
       setLoading(true);
       const today = new Date().toISOString().split('T')[0];
 
-      const { error } = await supabase.from('attendance').insert({
-        employee_id: user?.id,
-        date: today,
-        check_in: new Date().toISOString(),
-        status: 'present',
-      });
+      const { data, error } = await supabase
+        .from('attendance')
+        .insert({
+          employee_id: user?.id,
+          date: today,
+          check_in: new Date().toISOString(),
+          status: 'present',
+        })
+        .select('id, date, check_in, check_out')
+        .single();
 
       if (error) throw error;
 
-      toast.success('Attendance marked successfully');
-      setHasMarkedToday(true);
+      toast.success('Checked in successfully');
+      setTodayRecord(data);
     } catch (error: any) {
       toast.error(error.message || 'Failed to mark attendance');
     } finally {
@@ -55,13 +84,42 @@ export default function Attendance() {
     }
   };
 
-  return (
-    <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold">Attendance</h1>
-        <p className="text-muted-foreground mt-1">Track your daily attendance</p>
-      </div>
+  const checkOut = async () => {
+    if (!todayRecord) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('attendance')
+        .update({ check_out: new Date().toISOString() })
+        .eq('id', todayRecord.id)
+        .select('id, date, check_in, check_out')
+        .single();
+
+      if (error) throw error;
+
+      toast.success('Checked out successfully');
+      setTodayRecord(data);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to check out');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const workedMinutes = todayRecord
+    ? getWorkedMinutes(todayRecord.check_in, todayRecord.check_out, now)
+    : 0;
+
+  const getStatusText = () => {
+    if (isCheckedOut) return `Checked out at ${format(new Date(todayRecord.check_out), 'hh:mm a')}`;
+    if (isCheckedIn) return `Checked in at ${format(new Date(todayRecord.check_in), 'hh:mm a')}`;
+    return 'Not marked yet';
+  };
 
+  const personalView = (
+    <div className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>Today's Attendance</CardTitle>
@@ -69,7 +127,7 @@ export default function Attendance() {
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between p-6 bg-muted rounded-lg">
             <div className="flex items-center gap-4">
-              {hasMarkedToday ? (
+              {todayRecord ? (
                 <CheckCircle className="h-8 w-8 text-success" />
               ) : (
                 <Clock className="h-8 w-8 text-muted-foreground" />
@@ -78,17 +136,73 @@ export default function Attendance() {
                 <p className="font-semibold text-lg">
                   {format(new Date(), 'EEEE, MMMM dd, yyyy')}
                 </p>
-                <p className="text-sm text-muted-foreground">
-                  {hasMarkedToday ? 'Attendance marked' : 'Not marked yet'}
-                </p>
+                <p className="text-sm text-muted-foreground">{getStatusText()}</p>
               </div>
             </div>
-            <Button onClick={markAttendance} disabled={hasMarkedToday || loading}>
-              {loading ? 'Marking...' : hasMarkedToday ? 'Marked' : 'Mark Attendance'}
-            </Button>
+            {isCheckedIn ? (
+              <Button onClick={checkOut} disabled={loading} variant="outline">
+                <LogOut className="h-4 w-4 mr-2" />
+                {loading ? 'Checking out...' : 'Check Out'}
+              </Button>
+            ) : (
+              <Button onClick={markAttendance} disabled={isCheckedOut || loading}>
+                <LogIn className="h-4 w-4 mr-2" />
+                {loading ? 'Marking...' : isCheckedOut ? 'Done for today' : 'Check In'}
+              </Button>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="p-4 border rounded-lg">
+              <p className="text-sm text-muted-foreground">Check In</p>
+              <p className="text-xl font-semibold">
+                {todayRecord ? format(new Date(todayRecord.check_in), 'hh:mm a') : '-'}
+              </p>
+            </div>
+            <div className="p-4 border rounded-lg">
+              <p className="text-sm text-muted-foreground">Check Out</p>
+              <p className="text-xl font-semibold">
+                {todayRecord?.check_out ? format(new Date(todayRecord.check_out), 'hh:mm a') : '-'}
+              </p>
+            </div>
+            <div className="p-4 border rounded-lg">
+              <p className="text-sm text-muted-foreground">
+                {isCheckedIn ? 'Hours Worked So Far' : 'Hours Worked Today'}
+              </p>
+              <p className="text-xl font-semibold">{formatWorkedDuration(workedMinutes)}</p>
+            </div>
           </div>
         </CardContent>
       </Card>
+
+      {user && <AttendanceHistory employeeId={user.id} />}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Attendance</h1>
+        <p className="text-muted-foreground mt-1">
+          {canViewRegister ? 'Track your attendance and review the team register' : 'Track your daily attendance'}
+        </p>
+      </div>
+
+      {canViewRegister ? (
+        <Tabs defaultValue="mine" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="mine">My Attendance</TabsTrigger>
+            <TabsTrigger value="register">Register</TabsTrigger>
+          </TabsList>
+          <TabsContent value="mine">{personalView}</TabsContent>
+          <TabsContent value="register" className="space-y-6">
+            <AttendanceRegister />
+            {hasPermission('attendance.export') && <PayPeriodExport />}
+          </TabsContent>
+        </Tabs>
+      ) : (
+        personalView
+      )}
     </div>
   );
 }
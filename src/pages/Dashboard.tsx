@@ -6,6 +6,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { formatDistanceToNow } from 'date-fns';
+import { LeaveBalanceCard } from '@/components/LeaveBalanceCard';
+import { UserAvatar } from '@/components/UserAvatar';
 
 interface DashboardStats {
   totalEmployees: number;
@@ -22,11 +24,13 @@ interface Activity {
   user_id: string;
   profiles: {
     full_name: string;
+    avatar_url: string | null;
   };
 }
 
 export default function Dashboard() {
-  const { userRole, user } = useAuth();
+  const { permissions, hasPermission, user } = useAuth();
+  const showCompanyStats = hasPermission('leave.view_all') && hasPermission('attendance.view_all');
   const [stats, setStats] = useState<DashboardStats>({
     totalEmployees: 0,
     pendingLeaves: 0,
@@ -38,16 +42,16 @@ export default function Dashboard() {
 
   useEffect(() => {
     fetchDashboardData();
-  }, [userRole, user]);
+  }, [permissions, user]);
 
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
 
       // Fetch stats based on role
-      if (userRole === 'admin') {
+      if (showCompanyStats) {
         const [employeesData, leavesData, attendanceData] = await Promise.all([
-          supabase.from('profiles').select('id', { count: 'exact' }),
+          supabase.from('employee_directory').select('id', { count: 'exact' }).is('terminated_at', null),
           supabase.from('leaves').select('status', { count: 'exact' }),
           supabase.from('attendance').select('id', { count: 'exact' }).eq('date', new Date().toISOString().split('T')[0]),
         ]);
@@ -82,7 +86,7 @@ export default function Dashboard() {
       // Fetch recent activities
       const { data: activitiesData } = await supabase
         .from('activity_logs')
-        .select('*, profiles(full_name)')
+        .select('*, profiles:employee_directory(full_name, avatar_url)')
         .order('created_at', { ascending: false })
         .limit(10);
 
@@ -94,7 +98,7 @@ export default function Dashboard() {
     }
   };
 
-  const statCards = userRole === 'admin' 
+  const statCards = showCompanyStats
     ? [
         { title: 'Total Employees', value: stats.totalEmployees, icon: Users, color: 'text-primary' },
         { title: 'Pending Leaves', value: stats.pendingLeaves, icon: Calendar, color: 'text-warning' },
@@ -146,6 +150,8 @@ export default function Dashboard() {
         )}
       </div>
 
+      {user && <LeaveBalanceCard employeeId={user.id} />}
+
       <Card>
         <CardHeader>
           <CardTitle>Recent Activity</CardTitle>
@@ -169,9 +175,12 @@ export default function Dashboard() {
             <div className="space-y-4">
               {activities.map((activity) => (
                 <div key={activity.id} className="flex items-start space-x-4 pb-4 border-b last:border-0">
-                  <div className="mt-1">
-                    <div className="h-2 w-2 rounded-full bg-primary" />
-                  </div>
+                  <UserAvatar
+                    name={activity.profiles.full_name}
+                    avatarUrl={activity.profiles.avatar_url}
+                    className="h-8 w-8"
+                    fallbackClassName="text-xs"
+                  />
                   <div className="flex-1 space-y-1">
                     <div className="flex items-center justify-between">
                       <p className="text-sm font-medium text-foreground">
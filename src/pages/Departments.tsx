@@ -0,0 +1,346 @@
+import { useCallback, useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Plus, Edit, Merge, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { Department, useDepartments } from '@/hooks/use-departments';
+
+interface Headcount {
+  department_id: string | null;
+  headcount: number;
+}
+
+interface Person {
+  id: string;
+  full_name: string;
+}
+
+export default function Departments() {
+  const { departments, loading, refresh } = useDepartments();
+  const [headcounts, setHeadcounts] = useState<Headcount[]>([]);
+  const [heads, setHeads] = useState<Person[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedDepartment, setSelectedDepartment] = useState<Department | null>(null);
+  const [formData, setFormData] = useState({ name: '', head_id: '', head_name: '' });
+  const [mergeSource, setMergeSource] = useState<Department | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [deleteDepartment, setDeleteDepartment] = useState<Department | null>(null);
+
+  // Counted in Postgres; only the heads' names are loaded
+  const fetchHeadcounts = useCallback(async () => {
+    try {
+      const headIds = departments.map(d => d.head_id).filter((id): id is string => !!id);
+      const [countsData, headsData] = await Promise.all([
+        supabase.rpc('get_department_headcounts'),
+        headIds.length > 0
+          ? supabase.from('employee_directory').select('id, full_name').in('id', headIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (countsData.error) throw countsData.error;
+      if (headsData.error) throw headsData.error;
+      setHeadcounts(countsData.data || []);
+      setHeads(headsData.data || []);
+    } catch (error) {
+      toast.error('Failed to fetch headcount');
+      console.error(error);
+    }
+  }, [departments]);
+
+  useEffect(() => {
+    fetchHeadcounts();
+  }, [fetchHeadcounts]);
+
+  const getHeadcount = (departmentId: string | null) =>
+    headcounts.find(h => h.department_id === departmentId)?.headcount || 0;
+  const getName = (profileId: string | null) => heads.find(h => h.id === profileId)?.full_name;
+  const unassigned = getHeadcount(null);
+
+  const handleAdd = () => {
+    setSelectedDepartment(null);
+    setFormData({ name: '', head_id: '', head_name: '' });
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (department: Department) => {
+    setSelectedDepartment(department);
+    setFormData({ name: department.name, head_id: department.head_id || '', head_name: getName(department.head_id) || '' });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Department name is required');
+      return;
+    }
+
+    const values = { name: formData.name.trim(), head_id: formData.head_id || null };
+
+    try {
+      const { error } = selectedDepartment
+        ? await supabase.from('departments').update(values).eq('id', selectedDepartment.id)
+        : await supabase.from('departments').insert(values);
+
+      if (error) {
+        // Unique index on lower(name)
+        if (error.code === '23505') throw new Error(`A department named "${values.name}" already exists`);
+        throw error;
+      }
+
+      toast.success(selectedDepartment ? 'Department updated successfully' : 'Department added successfully');
+      setIsDialogOpen(false);
+      refresh();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to save department');
+      console.error(error);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeSource || !mergeTargetId) return;
+
+    try {
+      const { error } = await supabase.rpc('merge_departments', {
+        _source_id: mergeSource.id,
+        _target_id: mergeTargetId,
+      });
+
+      if (error) throw error;
+
+      toast.success(`${mergeSource.name} merged successfully`);
+      setMergeSource(null);
+      refresh();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to merge departments');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteDepartment) return;
+
+    try {
+      const { error } = await supabase.from('departments').delete().eq('id', deleteDepartment.id);
+
+      if (error) throw error;
+
+      toast.success('Department removed successfully');
+      setDeleteDepartment(null);
+      refresh();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove department');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Departments</h1>
+          <p className="text-muted-foreground mt-1">Organise teams and their heads</p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Department
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Departments</CardTitle>
+          {unassigned > 0 && (
+            <p className="text-sm text-muted-foreground">
+              {unassigned} active {unassigned === 1 ? 'employee has' : 'employees have'} no department
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Head</TableHead>
+                    <TableHead>Headcount</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {departments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                        No departments configured
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    departments.map((department) => (
+                      <TableRow key={department.id}>
+                        <TableCell className="font-medium">{department.name}</TableCell>
+                        <TableCell>{getName(department.head_id) || '-'}</TableCell>
+                        <TableCell>{getHeadcount(department.id)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button variant="ghost" size="icon" onClick={() => handleEdit(department)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={departments.length < 2}
+                              onClick={() => {
+                                setMergeTargetId('');
+                                setMergeSource(department);
+                              }}
+                            >
+                              <Merge className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => setDeleteDepartment(department)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedDepartment ? 'Edit Department' : 'Add Department'}</DialogTitle>
+            <DialogDescription>Renaming a department updates every member's profile</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="department_name">Name</Label>
+              <Input
+                id="department_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Engineering"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="department_head">Head of Department</Label>
+              <EmployeePicker
+                id="department_head"
+                value={formData.head_id}
+                selectedName={formData.head_name}
+                noneLabel="No head"
+                onChange={(headId, headName) => setFormData({ ...formData, head_id: headId, head_name: headName || '' })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!mergeSource} onOpenChange={(open) => !open && setMergeSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Department</DialogTitle>
+            <DialogDescription>
+              Everyone in {mergeSource?.name} moves to the chosen department, then {mergeSource?.name} is removed
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Merge Into</Label>
+            <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a department" />
+              </SelectTrigger>
+              <SelectContent>
+                {departments
+                  .filter(d => d.id !== mergeSource?.id)
+                  .map(d => (
+                    <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMergeSource(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTargetId}>Merge</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deleteDepartment} onOpenChange={(open) => !open && setDeleteDepartment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {deleteDepartment?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteDepartment && getHeadcount(deleteDepartment.id) > 0
+                ? `${getHeadcount(deleteDepartment.id)} employees will be left without a department. Consider merging instead.`
+                : 'This department has no members.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
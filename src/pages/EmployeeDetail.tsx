@@ -0,0 +1,446 @@
+import { useCallback, useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, Briefcase, Building2, Cake, Calendar, Mail, MapPin, Phone, UserCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format, formatDistanceToNow, parseISO, subDays } from 'date-fns';
+import { LeaveBalanceCard } from '@/components/LeaveBalanceCard';
+import { EmployeeDocuments } from '@/components/EmployeeDocuments';
+import { PersonalDetailsCard } from '@/components/PersonalDetailsCard';
+import { EmergencyContactsCard } from '@/components/EmergencyContactsCard';
+import { UserAvatar } from '@/components/UserAvatar';
+import { useAuth } from '@/contexts/AuthContext';
+import { useWorkCalendar } from '@/hooks/use-work-calendar';
+import { buildDailyAttendance, formatWorkedDuration, getWorkedMinutes } from '@/lib/attendance';
+import { formatLeaveDuration, getLeaveTypeLabel } from '@/lib/leaves';
+import { getRoleLabel } from '@/lib/permissions';
+import { PublicDetails, formatBirthday, formatLocation } from '@/lib/personal-details';
+
+// Window used for the attendance summary
+const ATTENDANCE_DAYS = 30;
+
+interface EmployeeProfile {
+  id: string;
+  full_name: string;
+  department: string | null;
+  position: string | null;
+  hire_date: string | null;
+  manager_id: string | null;
+  terminated_at: string | null;
+  avatar_url: string | null;
+  // Only loaded for employee editors, who can read full profile rows
+  email?: string;
+  phone?: string | null;
+  termination_reason?: string | null;
+}
+
+interface Person {
+  id: string;
+  full_name: string;
+}
+
+interface LeaveRecord {
+  id: string;
+  leave_type: string;
+  start_date: string;
+  end_date: string;
+  days_count: number;
+  duration_type: string;
+  half_day_period: string | null;
+  hours: number | null;
+  status: string;
+  created_at: string;
+}
+
+interface AttendanceRecord {
+  employee_id: string;
+  date: string;
+  check_in: string;
+  check_out: string | null;
+}
+
+interface Activity {
+  id: string;
+  action: string;
+  description: string;
+  created_at: string;
+  profiles: { full_name: string; avatar_url: string | null } | null;
+}
+
+const statusVariants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'outline',
+};
+
+export default function EmployeeDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { hasPermission } = useAuth();
+  const canViewLeaves = hasPermission('leave.view_all');
+  const canViewAttendance = hasPermission('attendance.view_all');
+  const canEdit = hasPermission('employee.edit');
+  const { isWeekendDay, getHoliday } = useWorkCalendar();
+  const [employee, setEmployee] = useState<EmployeeProfile | null>(null);
+  const [role, setRole] = useState<string | null>(null);
+  const [manager, setManager] = useState<Person | null>(null);
+  const [reports, setReports] = useState<Person[]>([]);
+  const [leaves, setLeaves] = useState<LeaveRecord[]>([]);
+  const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [publicDetails, setPublicDetails] = useState<PublicDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const attendanceFrom = format(subDays(new Date(), ATTENDANCE_DAYS - 1), 'yyyy-MM-dd');
+
+  const fetchEmployee = useCallback(async (employeeId: string) => {
+    try {
+      setLoading(true);
+      // Other employee viewers only see the directory columns
+      const { data, error } = canEdit
+        ? await supabase
+            .from('profiles')
+            .select('id, email, full_name, department, position, phone, hire_date, manager_id, terminated_at, termination_reason, avatar_url')
+            .eq('id', employeeId)
+            .maybeSingle()
+        : await supabase
+            .from('employee_directory')
+            .select('id, full_name, department, position, hire_date, manager_id, terminated_at, avatar_url')
+            .eq('id', employeeId)
+            .maybeSingle();
+
+      if (error) throw error;
+      setEmployee(data);
+      if (!data) return;
+
+      const [roleData, managerData, reportsData, leavesData, attendanceData, activityData, publicDetailsData] = await Promise.all([
+        supabase.from('user_roles').select('role').eq('user_id', employeeId).maybeSingle(),
+        data.manager_id
+          ? supabase.from('employee_directory').select('id, full_name').eq('id', data.manager_id).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        supabase.from('employee_directory').select('id, full_name').eq('manager_id', employeeId).is('terminated_at', null).order('full_name'),
+        canViewLeaves
+          ? supabase
+              .from('leaves')
+              .select('id, leave_type, start_date, end_date, days_count, duration_type, half_day_period, hours, status, created_at')
+              .eq('employee_id', employeeId)
+              .order('start_date', { ascending: false })
+              .limit(20)
+          : Promise.resolve({ data: [], error: null }),
+        canViewAttendance
+          ? supabase
+              .from('attendance')
+              .select('employee_id, date, check_in, check_out')
+              .eq('employee_id', employeeId)
+              .gte('date', attendanceFrom)
+              .lte('date', today)
+          : Promise.resolve({ data: [], error: null }),
+        // Things the employee did, and things done to their record
+        supabase
+          .from('activity_logs')
+          .select('*, profiles:employee_directory(full_name, avatar_url)')
+          .or(`user_id.eq.${employeeId},entity_id.eq.${employeeId}`)
+          .order('created_at', { ascending: false })
+          .limit(15),
+        supabase.from('employee_public_details').select('*').eq('employee_id', employeeId).maybeSingle(),
+      ]);
+
+      if (leavesData.error) throw leavesData.error;
+      if (attendanceData.error) throw attendanceData.error;
+      if (activityData.error) throw activityData.error;
+
+      setRole(roleData.data?.role || null);
+      setManager(managerData.data);
+      setReports(reportsData.data || []);
+      setLeaves(leavesData.data || []);
+      setAttendance(attendanceData.data || []);
+      setActivities(activityData.data || []);
+      setPublicDetails(publicDetailsData.data);
+    } catch (error) {
+      toast.error('Failed to fetch employee');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [canEdit, canViewLeaves, canViewAttendance, attendanceFrom, today]);
+
+  useEffect(() => {
+    if (id) {
+      fetchEmployee(id);
+    }
+  }, [id, fetchEmployee]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-64" />
+        <div className="grid gap-6 md:grid-cols-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-48 w-full" />
+          ))}
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (!employee) {
+    return (
+      <div className="space-y-6">
+        <Button variant="ghost" asChild>
+          <Link to="/employees">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Employees
+          </Link>
+        </Button>
+        <p className="text-center py-8 text-muted-foreground">Employee not found</p>
+      </div>
+    );
+  }
+
+  const days = buildDailyAttendance({
+    employees: [employee],
+    records: attendance,
+    leaves: leaves.filter(l => l.status === 'approved').map(l => ({ ...l, employee_id: employee.id })),
+    fromDate: attendanceFrom,
+    toDate: today,
+    today,
+    isNonWorkingDay: (day) => isWeekendDay(day) || !!getHoliday(day),
+  });
+  const countDays = (status: string) => days.filter(d => d.status === status).length;
+  const workedMinutes = attendance.reduce((sum, r) => sum + getWorkedMinutes(r.check_in, r.check_out), 0);
+
+  const attendanceStats = [
+    { label: 'Present', value: countDays('present') + countDays('late') },
+    { label: 'Late', value: countDays('late') },
+    { label: 'Absent', value: countDays('absent') },
+    { label: 'On Leave', value: countDays('leave') },
+    { label: 'Hours Worked', value: formatWorkedDuration(workedMinutes) },
+  ];
+
+  const details = [
+    ...(canEdit
+      ? [
+          { icon: Mail, label: 'Email', value: employee.email },
+          { icon: Phone, label: 'Phone', value: employee.phone },
+        ]
+      : []),
+    { icon: Building2, label: 'Department', value: employee.department },
+    { icon: Briefcase, label: 'Position', value: employee.position },
+    { icon: Calendar, label: 'Hire Date', value: employee.hire_date && format(parseISO(employee.hire_date), 'MMM dd, yyyy') },
+    { icon: Cake, label: 'Birthday', value: publicDetails?.birthday && formatBirthday(publicDetails.birthday) },
+    { icon: MapPin, label: 'Location', value: publicDetails && formatLocation(publicDetails) },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <Button variant="ghost" asChild>
+        <Link to="/employees">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Employees
+        </Link>
+      </Button>
+
+      <div className="flex items-center gap-4">
+        <UserAvatar
+          name={employee.full_name}
+          avatarUrl={employee.avatar_url}
+          className="h-16 w-16"
+          fallbackClassName="text-xl"
+        />
+        <div>
+          <div className="flex items-center gap-2">
+            <h1 className="text-3xl font-bold text-foreground">{employee.full_name}</h1>
+            {publicDetails?.pronouns && (
+              <span className="text-muted-foreground">({publicDetails.pronouns})</span>
+            )}
+            <Badge variant="outline">{getRoleLabel(role || 'employee')}</Badge>
+            {employee.terminated_at && (
+              <Badge variant="secondary">Left {format(parseISO(employee.terminated_at), 'MMM dd, yyyy')}</Badge>
+            )}
+          </div>
+          <p className="text-muted-foreground mt-1">{employee.position || 'Employee'}</p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-3">
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle>Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              {details.map(({ icon: Icon, label, value }) => (
+                <div key={label} className="flex items-start gap-3">
+                  <Icon className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                  <div>
+                    <p className="text-xs text-muted-foreground">{label}</p>
+                    <p className="text-sm font-medium">{value || '-'}</p>
+                  </div>
+                </div>
+              ))}
+              <div className="flex items-start gap-3">
+                <UserCircle className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                <div>
+                  <p className="text-xs text-muted-foreground">Reports To</p>
+                  {manager ? (
+                    <Link to={`/employees/${manager.id}`} className="text-sm font-medium hover:underline">
+                      {manager.full_name}
+                    </Link>
+                  ) : (
+                    <p className="text-sm font-medium">-</p>
+                  )}
+                </div>
+              </div>
+            </div>
+            {reports.length > 0 && (
+              <div>
+                <p className="text-xs text-muted-foreground mb-1">Direct Reports ({reports.length})</p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {reports.map(report => (
+                    <Link key={report.id} to={`/employees/${report.id}`} className="text-sm font-medium hover:underline">
+                      {report.full_name}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+            {employee.terminated_at && (
+              <p className="text-sm text-muted-foreground">
+                Offboarded effective {format(parseISO(employee.terminated_at), 'MMM dd, yyyy')}
+                {employee.termination_reason && `: ${employee.termination_reason}`}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {canViewAttendance && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Attendance (last {ATTENDANCE_DAYS} days)</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {attendanceStats.map(stat => (
+                <div key={stat.label} className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">{stat.label}</span>
+                  <span className="font-medium">{stat.value}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {canViewLeaves && (
+        <div className="grid gap-6 md:grid-cols-3">
+          <LeaveBalanceCard employeeId={employee.id} title="Leave Balance" />
+
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle>Leave History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Dates</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {leaves.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                          No leave requests
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      leaves.map((leave) => (
+                        <TableRow key={leave.id}>
+                          <TableCell className="font-medium">{getLeaveTypeLabel(leave.leave_type)}</TableCell>
+                          <TableCell>
+                            {format(parseISO(leave.start_date), 'MMM dd, yyyy')}
+                            {leave.end_date !== leave.start_date && ` - ${format(parseISO(leave.end_date), 'MMM dd, yyyy')}`}
+                          </TableCell>
+                          <TableCell>{formatLeaveDuration(leave)}</TableCell>
+                          <TableCell>
+                            <Badge variant={statusVariants[leave.status] || 'default'} className="capitalize">
+                              {leave.status}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Activity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {activities.length === 0 ? (
+              <p className="text-muted-foreground text-center py-8">No recent activity</p>
+            ) : (
+              <div className="space-y-4">
+                {activities.map((activity) => (
+                  <div key={activity.id} className="flex items-start space-x-4 pb-4 border-b last:border-0">
+                    <UserAvatar
+                      name={activity.profiles?.full_name}
+                      avatarUrl={activity.profiles?.avatar_url}
+                      className="h-8 w-8"
+                      fallbackClassName="text-xs"
+                    />
+                    <div className="flex-1 space-y-1">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium text-foreground">{activity.profiles?.full_name}</p>
+                        <Badge variant="secondary" className="text-xs">
+                          {activity.action}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{activity.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(activity.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {canEdit && <EmployeeDocuments employeeId={employee.id} />}
+      </div>
+
+      {canEdit && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <PersonalDetailsCard employeeId={employee.id} />
+          <EmergencyContactsCard employeeId={employee.id} />
+        </div>
+      )}
+    </div>
+  );
+}
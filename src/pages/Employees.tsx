@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useCallback, useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Search, Edit, Trash2 } from 'lucide-react';
+import { Plus, Search, Edit, UserMinus, CalendarDays, Upload } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
@@ -15,6 +16,8 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import {
   Select,
   SelectContent,
@@ -30,100 +33,180 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from '@/components/ui/alert-dialog';
+import { LeaveEntitlementsDialog } from '@/components/LeaveEntitlementsDialog';
+import { EmployeePicker } from '@/components/EmployeePicker';
+import { EmployeeImportDialog } from '@/components/EmployeeImportDialog';
+import { UserAvatar } from '@/components/UserAvatar';
+import { ProfileChangeQueue } from '@/components/ProfileChangeQueue';
+import { ExportMenu } from '@/components/ExportMenu';
+import { SortableTableHead } from '@/components/SortableTableHead';
+import { TablePagination } from '@/components/TablePagination';
+import { ExportCell, ExportFormat, exportTable } from '@/lib/export';
+import { invokeFunction } from '@/lib/functions';
+import { APP_ROLES, AppRole, getRoleLabel } from '@/lib/permissions';
+import { useAuth } from '@/contexts/AuthContext';
+import { useDepartments } from '@/hooks/use-departments';
+import { useDebounce } from '@/hooks/use-debounce';
+import { PAGE_SIZE, SortState, fetchAllRows, getPageRange, toPrefixTsQuery } from '@/lib/table-query';
+import { format, parseISO } from 'date-fns';
 
 interface Employee {
   id: string;
-  email: string;
   full_name: string;
   department: string | null;
+  department_id: string | null;
   position: string | null;
-  phone: string | null;
   hire_date: string | null;
+  manager_id: string | null;
+  manager: { full_name: string } | null;
+  terminated_at: string | null;
+  avatar_url: string | null;
   user_roles: Array<{ role: string }> | null;
+  // Only loaded for employee editors, who can read full profile rows
+  email?: string;
+  phone?: string | null;
+  termination_reason?: string | null;
 }
 
+type EmployeeSortColumn = 'full_name' | 'email' | 'department' | 'position';
+type StatusFilter = 'active' | 'former' | 'all';
+
+const EMPLOYEE_COLUMNS =
+  'id, email, full_name, department, department_id, position, phone, hire_date, manager_id, terminated_at, termination_reason, avatar_url, user_roles(role), manager(full_name)';
+
+// Other employee viewers list the directory, which has no contact details
+const DIRECTORY_COLUMNS =
+  'id, full_name, department, department_id, position, hire_date, manager_id, terminated_at, avatar_url, user_roles(role), manager(full_name)';
+
+const EXPORT_COLUMNS: Array<{ header: string; value: (employee: Employee) => ExportCell; editorsOnly?: boolean }> = [
+  { header: 'Full Name', value: emp => emp.full_name },
+  { header: 'Email', value: emp => emp.email, editorsOnly: true },
+  { header: 'Department', value: emp => emp.department },
+  { header: 'Position', value: emp => emp.position },
+  { header: 'Phone', value: emp => emp.phone, editorsOnly: true },
+  { header: 'Hire Date', value: emp => emp.hire_date },
+  { header: 'Role', value: emp => getRoleLabel(emp.user_roles?.[0]?.role || 'employee') },
+  { header: 'Manager', value: emp => emp.manager?.full_name },
+  { header: 'Status', value: emp => (emp.terminated_at ? 'Former' : 'Active') },
+  { header: 'Termination Date', value: emp => emp.terminated_at },
+  { header: 'Termination Reason', value: emp => emp.termination_reason, editorsOnly: true },
+];
+
 export default function Employees() {
+  const { hasPermission } = useAuth();
+  const canEdit = hasPermission('employee.edit');
+  const canAssignRoles = hasPermission('role.assign');
+  const { departments } = useDepartments();
   const [employees, setEmployees] = useState<Employee[]>([]);
-  const [filteredEmployees, setFilteredEmployees] = useState<Employee[]>([]);
+  const [totalEmployees, setTotalEmployees] = useState(0);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [sort, setSort] = useState<SortState<EmployeeSortColumn>>({ column: 'full_name', ascending: true });
+  const [page, setPage] = useState(0);
+  const debouncedSearch = useDebounce(searchQuery);
+  const latestRequest = useRef(0);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isOffboardDialogOpen, setIsOffboardDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isEntitlementsDialogOpen, setIsEntitlementsDialogOpen] = useState(false);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
+  const [saving, setSaving] = useState(false);
   const [formData, setFormData] = useState({
     full_name: '',
     email: '',
-    department: '',
+    department_id: '',
     position: '',
     phone: '',
     hire_date: '',
-    role: 'employee' as 'admin' | 'employee',
+    manager_id: '',
+    manager_name: '',
+    role: 'employee' as AppRole,
   });
+  const [offboardData, setOffboardData] = useState({ terminated_at: '', reason: '' });
 
-  useEffect(() => {
-    fetchEmployees();
-  }, []);
+  // Filters, search and sorting all run in Postgres; only the current page is loaded
+  const queryEmployees = useCallback(() => {
+    // Widened so the two column lists aren't parsed into a union of row types;
+    // callers override the row type anyway
+    const columns: string = canEdit ? EMPLOYEE_COLUMNS : DIRECTORY_COLUMNS;
+    let query = supabase
+      .from(canEdit ? 'profiles' : 'employee_directory')
+      .select(columns, { count: 'exact' })
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id');
 
-  useEffect(() => {
-    const filtered = employees.filter(emp =>
-      emp.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      emp.email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      emp.department?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      emp.position?.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-    setFilteredEmployees(filtered);
-  }, [searchQuery, employees]);
+    if (statusFilter === 'active') query = query.is('terminated_at', null);
+    if (statusFilter === 'former') query = query.not('terminated_at', 'is', null);
+
+    const tsQuery = toPrefixTsQuery(debouncedSearch);
+    if (tsQuery) query = query.textSearch('search_vector', tsQuery, { config: 'simple' });
+
+    return query;
+  }, [canEdit, sort, statusFilter, debouncedSearch]);
+
+  const fetchEmployees = useCallback(async () => {
+    // Ignore responses that arrive after a newer request was made
+    const requestId = ++latestRequest.current;
 
-  const fetchEmployees = async () => {
     try {
       setLoading(true);
-      const { data: profilesData, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .order('full_name');
+      const [from, to] = getPageRange(page);
+      const { data, error, count } = await queryEmployees()
+        .range(from, to)
+        .overrideTypes<Employee[], { merge: false }>();
 
       if (error) throw error;
+      if (requestId !== latestRequest.current) return;
 
-      // Fetch roles separately
-      const { data: rolesData } = await supabase
-        .from('user_roles')
-        .select('user_id, role');
-
-      const employeesWithRoles = profilesData?.map(profile => ({
-        ...profile,
-        user_roles: rolesData?.filter(r => r.user_id === profile.id).map(r => ({ role: r.role })) || []
-      })) || [];
+      // The page can run past the end after rows drop out of the filter
+      if (data?.length === 0 && page > 0 && count) {
+        setPage(Math.ceil(count / PAGE_SIZE) - 1);
+        return;
+      }
 
-      setEmployees(employeesWithRoles);
-      setFilteredEmployees(employeesWithRoles);
-    } catch (error: any) {
+      setEmployees(data || []);
+      setTotalEmployees(count || 0);
+    } catch (error) {
       toast.error('Failed to fetch employees');
       console.error(error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) setLoading(false);
     }
+  }, [queryEmployees, page]);
+
+  useEffect(() => {
+    fetchEmployees();
+  }, [fetchEmployees]);
+
+  // Any change to what is shown starts again from the first page
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    setPage(0);
+  };
+
+  const handleStatusChange = (value: StatusFilter) => {
+    setStatusFilter(value);
+    setPage(0);
+  };
+
+  const handleSort = (value: SortState<EmployeeSortColumn>) => {
+    setSort(value);
+    setPage(0);
   };
 
   const handleEdit = (employee: Employee) => {
     setSelectedEmployee(employee);
     setFormData({
       full_name: employee.full_name,
-      email: employee.email,
-      department: employee.department || '',
+      email: employee.email || '',
+      department_id: employee.department_id || '',
       position: employee.position || '',
       phone: employee.phone || '',
       hire_date: employee.hire_date || '',
-      role: (employee.user_roles?.[0]?.role as 'admin' | 'employee') || 'employee',
+      manager_id: employee.manager_id || '',
+      manager_name: employee.manager?.full_name || '',
+      role: (employee.user_roles?.[0]?.role as AppRole) || 'employee',
     });
     setIsDialogOpen(true);
   };
@@ -133,10 +216,12 @@ export default function Employees() {
     setFormData({
       full_name: '',
       email: '',
-      department: '',
+      department_id: '',
       position: '',
       phone: '',
       hire_date: '',
+      manager_id: '',
+      manager_name: '',
       role: 'employee',
     });
     setIsDialogOpen(true);
@@ -150,15 +235,46 @@ export default function Employees() {
           .from('profiles')
           .update({
             full_name: formData.full_name,
-            department: formData.department,
+            department_id: formData.department_id || null,
             position: formData.position,
             phone: formData.phone,
             hire_date: formData.hire_date || null,
+            manager_id: formData.manager_id || null,
           })
           .eq('id', selectedEmployee.id);
 
         if (error) throw error;
+
+        const currentRole = selectedEmployee.user_roles?.[0]?.role || 'employee';
+        if (formData.role !== currentRole) {
+          const { error: roleError } = await supabase.rpc('set_user_role', {
+            _user_id: selectedEmployee.id,
+            _role: formData.role,
+          });
+
+          if (roleError) throw roleError;
+        }
+
         toast.success('Employee updated successfully');
+      } else {
+        if (!formData.full_name || !formData.email) {
+          toast.error('Full name and email are required');
+          return;
+        }
+
+        setSaving(true);
+        await invokeFunction('create-employee', {
+          email: formData.email,
+          full_name: formData.full_name,
+          department_id: formData.department_id || null,
+          position: formData.position,
+          phone: formData.phone,
+          hire_date: formData.hire_date || null,
+          manager_id: formData.manager_id || null,
+          role: formData.role,
+          redirect_to: `${window.location.origin}/auth?invite=1`,
+        });
+        toast.success(`Invitation sent to ${formData.email}`);
       }
 
       setIsDialogOpen(false);
@@ -166,23 +282,59 @@ export default function Employees() {
     } catch (error: any) {
       toast.error(error.message || 'Failed to save employee');
       console.error(error);
+    } finally {
+      setSaving(false);
     }
   };
 
-  const handleDelete = async () => {
+  // Exports every matching employee, not just the current page
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const data = await fetchAllRows((from, to) =>
+      queryEmployees().range(from, to).overrideTypes<Employee[], { merge: false }>()
+    );
+
+    const columns = EXPORT_COLUMNS.filter(column => canEdit || !column.editorsOnly);
+    return exportTable(
+      {
+        headers: columns.map(column => column.header),
+        rows: data.map(emp => columns.map(column => column.value(emp))),
+      },
+      `employees-${statusFilter}-${format(new Date(), 'yyyy-MM-dd')}`,
+      exportFormat,
+      'Employees'
+    );
+  };
+
+  const openOffboard = (employee: Employee) => {
+    setSelectedEmployee(employee);
+    setOffboardData({ terminated_at: new Date().toISOString().split('T')[0], reason: '' });
+    setIsOffboardDialogOpen(true);
+  };
+
+  const handleOffboard = async () => {
     if (!selectedEmployee) return;
 
-    try {
-      const { error } = await supabase.auth.admin.deleteUser(selectedEmployee.id);
+    if (!offboardData.terminated_at || !offboardData.reason.trim()) {
+      toast.error('Please provide a termination date and reason');
+      return;
+    }
 
-      if (error) throw error;
+    try {
+      setSaving(true);
+      await invokeFunction('offboard-employee', {
+        employee_id: selectedEmployee.id,
+        terminated_at: offboardData.terminated_at,
+        reason: offboardData.reason.trim(),
+      });
 
-      toast.success('Employee deleted successfully');
-      setIsDeleteDialogOpen(false);
+      toast.success(`${selectedEmployee.full_name} has been offboarded`);
+      setIsOffboardDialogOpen(false);
       fetchEmployees();
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to delete employee');
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to offboard employee');
       console.error(error);
+    } finally {
+      setSaving(false);
     }
   };
 
@@ -193,12 +345,22 @@ export default function Employees() {
           <h1 className="text-3xl font-bold text-foreground">Employees</h1>
           <p className="text-muted-foreground mt-1">Manage your team members</p>
         </div>
-        <Button onClick={handleAdd}>
-          <Plus className="h-4 w-4 mr-2" />
-          Add Employee
-        </Button>
+        {canEdit && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import CSV
+            </Button>
+            <Button onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Employee
+            </Button>
+          </div>
+        )}
       </div>
 
+      {canEdit && <ProfileChangeQueue onReviewed={fetchEmployees} />}
+
       <Card>
         <CardHeader>
           <div className="flex items-center gap-4">
@@ -207,10 +369,21 @@ export default function Employees() {
               <Input
                 placeholder="Search employees..."
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => handleSearchChange(e.target.value)}
                 className="pl-10"
               />
             </div>
+            <Select value={statusFilter} onValueChange={handleStatusChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="former">Former</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+            <ExportMenu onExport={handleExport} disabled={loading || totalEmployees === 0} />
           </div>
         </CardHeader>
         <CardContent>
@@ -225,50 +398,80 @@ export default function Employees() {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Name</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Department</TableHead>
-                    <TableHead>Position</TableHead>
+                    <SortableTableHead column="full_name" sort={sort} onSort={handleSort}>Name</SortableTableHead>
+                    {canEdit && <SortableTableHead column="email" sort={sort} onSort={handleSort}>Email</SortableTableHead>}
+                    <SortableTableHead column="department" sort={sort} onSort={handleSort}>Department</SortableTableHead>
+                    <SortableTableHead column="position" sort={sort} onSort={handleSort}>Position</SortableTableHead>
                     <TableHead>Role</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredEmployees.length === 0 ? (
+                  {employees.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      <TableCell colSpan={canEdit ? 6 : 5} className="text-center py-8 text-muted-foreground">
                         No employees found
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredEmployees.map((employee) => (
+                    employees.map((employee) => (
                       <TableRow key={employee.id}>
-                        <TableCell className="font-medium">{employee.full_name}</TableCell>
-                        <TableCell>{employee.email}</TableCell>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2">
+                            <UserAvatar
+                              name={employee.full_name}
+                              avatarUrl={employee.avatar_url}
+                              className="h-8 w-8"
+                              fallbackClassName="text-xs"
+                            />
+                            <Link to={`/employees/${employee.id}`} className="hover:underline">
+                              {employee.full_name}
+                            </Link>
+                            {employee.terminated_at && (
+                              <Badge variant="secondary" title={employee.termination_reason || undefined}>
+                                Left {format(parseISO(employee.terminated_at), 'MMM dd, yyyy')}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        {canEdit && <TableCell>{employee.email}</TableCell>}
                         <TableCell>{employee.department || '-'}</TableCell>
                         <TableCell>{employee.position || '-'}</TableCell>
-                        <TableCell className="capitalize">
-                          {employee.user_roles?.[0]?.role || 'employee'}
+                        <TableCell>
+                          {getRoleLabel(employee.user_roles?.[0]?.role || 'employee')}
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => handleEdit(employee)}
-                            >
-                              <Edit className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => {
-                                setSelectedEmployee(employee);
-                                setIsDeleteDialogOpen(true);
-                              }}
-                            >
-                              <Trash2 className="h-4 w-4 text-destructive" />
-                            </Button>
+                            {canEdit && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleEdit(employee)}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {hasPermission('leave.manage') && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => {
+                                  setSelectedEmployee(employee);
+                                  setIsEntitlementsDialogOpen(true);
+                                }}
+                              >
+                                <CalendarDays className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {canEdit && !employee.terminated_at && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => openOffboard(employee)}
+                              >
+                                <UserMinus className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -278,6 +481,7 @@ export default function Employees() {
               </Table>
             </div>
           )}
+          <TablePagination page={page} total={totalEmployees} onPageChange={setPage} />
         </CardContent>
       </Card>
 
@@ -288,7 +492,7 @@ export default function Employees() {
             <DialogDescription>
               {selectedEmployee
                 ? 'Update employee information'
-                : 'Add a new team member (Note: Create account via signup page first)'}
+                : 'Add a new team member. They will receive an email to set their password.'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -311,12 +515,21 @@ export default function Employees() {
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="department">Department</Label>
-              <Input
-                id="department"
-                value={formData.department}
-                onChange={(e) => setFormData({ ...formData, department: e.target.value })}
-              />
+              <Label htmlFor="department_id">Department</Label>
+              <Select
+                value={formData.department_id || 'none'}
+                onValueChange={(value) => setFormData({ ...formData, department_id: value === 'none' ? '' : value })}
+              >
+                <SelectTrigger id="department_id">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No department</SelectItem>
+                  {departments.map(dept => (
+                    <SelectItem key={dept.id} value={dept.id}>{dept.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
             <div className="space-y-2">
               <Label htmlFor="position">Position</Label>
@@ -343,33 +556,99 @@ export default function Employees() {
                 onChange={(e) => setFormData({ ...formData, hire_date: e.target.value })}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="manager_id">Manager</Label>
+              <EmployeePicker
+                id="manager_id"
+                value={formData.manager_id}
+                selectedName={formData.manager_name}
+                excludeId={selectedEmployee?.id}
+                noneLabel="No manager"
+                onChange={(id, name) => setFormData({ ...formData, manager_id: id, manager_name: name || '' })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role">Role</Label>
+              <Select
+                value={formData.role}
+                onValueChange={(value: AppRole) => setFormData({ ...formData, role: value })}
+                disabled={!canAssignRoles}
+              >
+                <SelectTrigger id="role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {APP_ROLES.map(role => (
+                    <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSubmit}>Save</Button>
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving ? 'Saving...' : selectedEmployee ? 'Save' : 'Send Invite'}
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
 
-      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-            <AlertDialogDescription>
-              This will permanently delete {selectedEmployee?.full_name}'s account and all associated data.
-              This action cannot be undone.
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel>Cancel</AlertDialogCancel>
-            <AlertDialogAction onClick={handleDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
-              Delete
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      <EmployeeImportDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImported={fetchEmployees}
+      />
+
+      <LeaveEntitlementsDialog
+        employee={selectedEmployee}
+        open={isEntitlementsDialogOpen}
+        onOpenChange={setIsEntitlementsDialogOpen}
+      />
+
+      <Dialog open={isOffboardDialogOpen} onOpenChange={setIsOffboardDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Offboard Employee</DialogTitle>
+            <DialogDescription>
+              {selectedEmployee?.full_name} will no longer be able to sign in. Their leave, attendance and
+              activity history is kept, pending leave requests are cancelled and direct reports move to
+              their manager.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="terminated_at">Termination Date</Label>
+              <Input
+                id="terminated_at"
+                type="date"
+                max={new Date().toISOString().split('T')[0]}
+                value={offboardData.terminated_at}
+                onChange={(e) => setOffboardData({ ...offboardData, terminated_at: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="termination_reason">Reason</Label>
+              <Textarea
+                id="termination_reason"
+                value={offboardData.reason}
+                onChange={(e) => setOffboardData({ ...offboardData, reason: e.target.value })}
+                placeholder="e.g. Resigned, contract ended"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOffboardDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleOffboard} disabled={saving}>
+              {saving ? 'Offboarding...' : 'Offboard'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
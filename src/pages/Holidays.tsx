@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { format, parseISO } from 'date-fns';
+import { useWorkCalendar } from '@/hooks/use-work-calendar';
+import { WEEKDAYS } from '@/lib/leaves';
+
+export default function Holidays() {
+  const { weekendDays, hoursPerDay, holidays, loading, refresh } = useWorkCalendar();
+  const [selectedWeekendDays, setSelectedWeekendDays] = useState<number[]>(weekendDays);
+  const [dayLength, setDayLength] = useState(String(hoursPerDay));
+  const [savingWeek, setSavingWeek] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({ date: '', name: '' });
+
+  useEffect(() => {
+    setSelectedWeekendDays(weekendDays);
+    setDayLength(String(hoursPerDay));
+  }, [weekendDays, hoursPerDay]);
+
+  const toggleWeekendDay = (day: number, checked: boolean) => {
+    setSelectedWeekendDays(checked
+      ? [...selectedWeekendDays, day].sort()
+      : selectedWeekendDays.filter(d => d !== day));
+  };
+
+  const handleSaveWeek = async () => {
+    if (selectedWeekendDays.length === 7) {
+      toast.error('At least one working day is required');
+      return;
+    }
+
+    if (!(Number(dayLength) > 0) || Number(dayLength) > 24) {
+      toast.error('Hours per working day must be between 0 and 24');
+      return;
+    }
+
+    try {
+      setSavingWeek(true);
+      const { error } = await supabase
+        .from('work_settings')
+        .update({ weekend_days: selectedWeekendDays, hours_per_day: Number(dayLength) })
+        .eq('id', true);
+
+      if (error) throw error;
+
+      toast.success('Working week updated successfully');
+      refresh();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update working week');
+      console.error(error);
+    } finally {
+      setSavingWeek(false);
+    }
+  };
+
+  const handleAdd = () => {
+    setFormData({ date: '', name: '' });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    try {
+      if (!formData.date || !formData.name) {
+        toast.error('Please fill in all fields');
+        return;
+      }
+
+      const { error } = await supabase.from('holidays').insert({
+        date: formData.date,
+        name: formData.name,
+      });
+
+      if (error) throw error;
+
+      toast.success('Holiday added successfully');
+      setIsDialogOpen(false);
+      refresh();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to add holiday');
+      console.error(error);
+    }
+  };
+
+  const handleDelete = async (holidayId: string) => {
+    try {
+      const { error } = await supabase.from('holidays').delete().eq('id', holidayId);
+
+      if (error) throw error;
+
+      toast.success('Holiday removed successfully');
+      refresh();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove holiday');
+      console.error(error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Holidays</h1>
+          <p className="text-muted-foreground mt-1">Manage the company holiday calendar and working week</p>
+        </div>
+        <Button onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Holiday
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Working Week</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Label>Weekend Days</Label>
+          <div className="flex flex-wrap gap-6">
+            {WEEKDAYS.map((name, day) => (
+              <div key={name} className="flex items-center gap-2">
+                <Checkbox
+                  id={`weekend_${day}`}
+                  checked={selectedWeekendDays.includes(day)}
+                  onCheckedChange={(checked) => toggleWeekendDay(day, checked === true)}
+                />
+                <Label htmlFor={`weekend_${day}`} className="font-normal">{name}</Label>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="hours_per_day">Hours per Working Day</Label>
+            <Input
+              id="hours_per_day"
+              type="number"
+              min={1}
+              max={24}
+              step={0.5}
+              value={dayLength}
+              onChange={(e) => setDayLength(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Used to convert hourly leave into days</p>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSaveWeek} disabled={savingWeek}>
+              {savingWeek ? 'Saving...' : 'Save Working Week'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Company Holidays</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {holidays.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                        No holidays configured
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    holidays.map((holiday) => (
+                      <TableRow key={holiday.id}>
+                        <TableCell>{format(parseISO(holiday.date), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell>{format(parseISO(holiday.date), 'EEEE')}</TableCell>
+                        <TableCell className="font-medium">{holiday.name}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" onClick={() => handleDelete(holiday.id)}>
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Holiday</DialogTitle>
+            <DialogDescription>Holidays are excluded from leave day counts</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="holiday_date">Date</Label>
+              <Input
+                id="holiday_date"
+                type="date"
+                value={formData.date}
+                onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="holiday_name">Name</Label>
+              <Input
+                id="holiday_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. New Year's Day"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit}>Add Holiday</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Plus, Search, Calendar as CalendarIcon } from 'lucide-react';
+import { Plus, Search, Calendar as CalendarIcon, AlertTriangle, Users } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
@@ -33,7 +33,39 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { format, differenceInDays } from 'date-fns';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ApprovalTrail, type ApprovalStep } from '@/components/ApprovalTrail';
+import { ApprovalChainSettings } from '@/components/ApprovalChainSettings';
+import { ExportMenu } from '@/components/ExportMenu';
+import { SortableTableHead } from '@/components/SortableTableHead';
+import { TablePagination } from '@/components/TablePagination';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { format } from 'date-fns';
+import { useLeaveBalances } from '@/hooks/use-leave-balances';
+import { useWorkCalendar } from '@/hooks/use-work-calendar';
+import { useDebounce } from '@/hooks/use-debounce';
+import { PAGE_SIZE, SortState, fetchAllRows, getPageRange, toPrefixTsQuery } from '@/lib/table-query';
+import {
+  LEAVE_DURATIONS,
+  LEAVE_TYPES,
+  LeaveDuration,
+  LeaveType,
+  countWorkingDays,
+  formatLeaveDuration,
+  getLeaveTypeLabel,
+} from '@/lib/leaves';
+import { ExportFormat, exportTable } from '@/lib/export';
 
 interface Leave {
   id: string;
@@ -42,137 +74,428 @@ interface Leave {
   start_date: string;
   end_date: string;
   days_count: number;
+  duration_type: 'full_day' | 'half_day' | 'hours';
+  half_day_period: 'am' | 'pm' | null;
+  hours: number | null;
   reason: string;
-  status: 'pending' | 'approved' | 'rejected';
+  status: 'pending' | 'approved' | 'rejected' | 'cancelled';
+  exceeds_balance: boolean;
+  cancellation_requested_at: string | null;
+  cancellation_reason: string | null;
+  review_comment: string | null;
   created_at: string;
   profiles: {
     full_name: string;
+  } | null;
+  // Only readable by employee editors; null for everyone else
+  contact: {
     email: string;
   } | null;
 }
 
+interface LeaveForm {
+  leave_type: LeaveType;
+  start_date: string;
+  end_date: string;
+  duration_type: LeaveDuration;
+  half_day_period: 'am' | 'pm';
+  hours: string;
+  reason: string;
+}
+
+// Columns a new request sets; the database fills in the rest
+type LeaveInsert = Pick<
+  Leave,
+  | 'employee_id'
+  | 'start_date'
+  | 'end_date'
+  | 'days_count'
+  | 'duration_type'
+  | 'half_day_period'
+  | 'hours'
+  | 'reason'
+  | 'status'
+  | 'exceeds_balance'
+> & { leave_type: LeaveType };
+
+// Employee names come from a view, so the table sorts on the leave's own columns
+type LeaveSortColumn = 'created_at' | 'leave_type' | 'start_date' | 'end_date' | 'days_count' | 'status';
+
+interface CoverageEntry {
+  leave_id: string;
+  department: string;
+  department_size: number;
+  colleague_id: string;
+  colleague_name: string;
+  start_date: string;
+  end_date: string;
+}
+
 export default function Leaves() {
-  const { user, userRole } = useAuth();
+  const { user, hasPermission } = useAuth();
   const [leaves, setLeaves] = useState<Leave[]>([]);
-  const [filteredLeaves, setFilteredLeaves] = useState<Leave[]>([]);
+  const [totalLeaves, setTotalLeaves] = useState(0);
+  const [seesOthersLeaves, setSeesOthersLeaves] = useState(false);
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
+  const [queueFilter, setQueueFilter] = useState<'all' | 'awaiting'>('all');
+  const [dateRange, setDateRange] = useState({ from: '', to: '' });
+  const [sort, setSort] = useState<SortState<LeaveSortColumn>>({ column: 'created_at', ascending: false });
+  const [page, setPage] = useState(0);
+  const debouncedSearch = useDebounce(searchQuery);
+  const latestRequest = useRef(0);
+  const [coverage, setCoverage] = useState<Record<string, CoverageEntry[]>>({});
+  const [approvals, setApprovals] = useState<Record<string, ApprovalStep[]>>({});
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<LeaveForm>({
     leave_type: 'vacation',
     start_date: '',
     end_date: '',
+    duration_type: 'full_day',
+    half_day_period: 'am',
+    hours: '',
     reason: '',
   });
+  const [overrideRequested, setOverrideRequested] = useState(false);
+  const [withdrawLeave, setWithdrawLeave] = useState<Leave | null>(null);
+  const [cancelLeave, setCancelLeave] = useState<Leave | null>(null);
+  const [cancellationReason, setCancellationReason] = useState('');
+  const [reviewAction, setReviewAction] = useState<{ leave: Leave; status: 'approved' | 'rejected' } | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+
+  const requestYear = formData.start_date ? new Date(formData.start_date).getFullYear() : new Date().getFullYear();
+  const { balances, refresh: refreshBalances } = useLeaveBalances(user?.id, requestYear);
+  const { weekendDays, hoursPerDay, holidays } = useWorkCalendar();
+  const selectedBalance = balances.find(b => b.leave_type === formData.leave_type);
+  // Partial-day requests always cover a single date
+  const isPartialDay = formData.duration_type !== 'full_day';
+  const effectiveEndDate = isPartialDay ? formData.start_date : formData.end_date;
+  const workingDays = formData.start_date && effectiveEndDate
+    ? countWorkingDays(formData.start_date, effectiveEndDate, weekendDays, holidays.map(h => h.date))
+    : 0;
+  const getRequestedDays = () => {
+    if (formData.duration_type === 'half_day') return workingDays > 0 ? 0.5 : 0;
+    if (formData.duration_type === 'hours') {
+      return workingDays > 0 && Number(formData.hours) > 0
+        ? Math.round((Number(formData.hours) / hoursPerDay) * 100) / 100
+        : 0;
+    }
+    return workingDays;
+  };
+  const requestedDays = getRequestedDays();
+  const exceedsBalance = !!selectedBalance && requestedDays > selectedBalance.remaining;
 
   useEffect(() => {
     fetchLeaves();
-  }, [user, userRole]);
+  }, [user, page, sort, queueFilter, dateRange, debouncedSearch]);
 
+  // Whether RLS lets this user see anyone else's requests, i.e. they approve for someone
   useEffect(() => {
-    const filtered = leaves.filter(leave =>
-      leave.profiles.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      leave.reason.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      leave.leave_type.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-    setFilteredLeaves(filtered);
-  }, [searchQuery, leaves]);
+    const fetchSeesOthersLeaves = async () => {
+      if (!user) return;
 
-  const fetchLeaves = async () => {
-    try {
-      setLoading(true);
-      let query = supabase
+      const { count, error } = await supabase
         .from('leaves')
-        .select('*, profiles!leaves_employee_id_fkey(full_name, email)')
-        .order('created_at', { ascending: false });
+        .select('id', { count: 'exact', head: true })
+        .neq('employee_id', user.id);
 
-      if (userRole === 'employee') {
-        query = query.eq('employee_id', user?.id);
+      if (error) {
+        console.error('Error checking routed leaves:', error);
+        return;
       }
+      setSeesOthersLeaves((count || 0) > 0);
+    };
+
+    fetchSeesOthersLeaves();
+  }, [user]);
+
+  // A request awaits the current user when its active step is theirs
+  const isAwaitingMe = (leaveId: string) => {
+    const activeStep = approvals[leaveId]?.find(step => step.status === 'pending');
+    if (!activeStep) return false;
+    return activeStep.approver_id === user?.id || (activeStep.approver_kind === 'admin' && hasPermission('leave.approve'));
+  };
 
-      const { data, error } = await query;
+  const showEmployeeColumn = hasPermission('leave.view_all') || seesOthersLeaves;
+
+  // Filters, search and sorting all run in Postgres; only the current page is loaded
+  const queryLeaves = () => {
+    const awaitingMe = queueFilter === 'awaiting';
+    // Inner-joining the active approval step keeps only leaves waiting on the current user
+    const columns = [
+      '*',
+      'profiles:employee_directory!employee_id(full_name)',
+      'contact:profiles!leaves_employee_id_fkey(email)',
+      ...(awaitingMe ? ['leave_approvals!inner(approver_id, approver_kind, status)'] : []),
+    ].join(', ');
+
+    // RLS scopes employees to their own requests plus those routed to them for approval
+    let query = supabase
+      .from('leaves')
+      .select(columns, { count: 'exact' })
+      .order(sort.column, { ascending: sort.ascending })
+      .order('id');
+
+    if (awaitingMe) {
+      const approvers = [`approver_id.eq.${user?.id}`];
+      if (hasPermission('leave.approve')) approvers.push('approver_kind.eq.admin');
+
+      query = query
+        .eq('leave_approvals.status', 'pending')
+        .or(approvers.join(','), { referencedTable: 'leave_approvals' });
+    }
+
+    // Keep requests that overlap the chosen range
+    if (dateRange.from) query = query.gte('end_date', dateRange.from);
+    if (dateRange.to) query = query.lte('start_date', dateRange.to);
+
+    const tsQuery = toPrefixTsQuery(debouncedSearch);
+    if (tsQuery) query = query.textSearch('search_vector', tsQuery, { config: 'simple' });
+
+    return query;
+  };
+
+  const fetchLeaves = async () => {
+    // Ignore responses that arrive after a newer request was made
+    const requestId = ++latestRequest.current;
+
+    try {
+      setLoading(true);
+      const [from, to] = getPageRange(page);
+      const { data, error, count } = await queryLeaves()
+        .range(from, to)
+        .overrideTypes<Leave[], { merge: false }>();
 
       if (error) throw error;
+      if (requestId !== latestRequest.current) return;
+
+      // The page can run past the end after rows drop out of the filter
+      if (data?.length === 0 && page > 0 && count) {
+        setPage(Math.ceil(count / PAGE_SIZE) - 1);
+        return;
+      }
+
       setLeaves(data || []);
-      setFilteredLeaves(data || []);
+      setTotalLeaves(count || 0);
+
+      fetchApprovals((data || []).map(l => l.id));
+      fetchCoverage((data || []).filter(l => l.status === 'pending' && l.employee_id !== user?.id).map(l => l.id));
     } catch (error: any) {
       toast.error('Failed to fetch leaves');
       console.error(error);
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) setLoading(false);
     }
   };
 
+  // Any change to what is shown starts again from the first page
+  const handleSearchChange = (value: string) => {
+    setSearchQuery(value);
+    setPage(0);
+  };
+
+  const handleQueueFilterChange = (value: 'all' | 'awaiting') => {
+    setQueueFilter(value);
+    setPage(0);
+  };
+
+  const handleDateRangeChange = (range: { from: string; to: string }) => {
+    setDateRange(range);
+    setPage(0);
+  };
+
+  const handleSort = (value: SortState<LeaveSortColumn>) => {
+    setSort(value);
+    setPage(0);
+  };
+
+  const fetchApprovals = async (leaveIds: string[]) => {
+    if (leaveIds.length === 0) {
+      setApprovals({});
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('leave_approvals')
+      .select('*, approver:employee_directory!approver_id(full_name), decider:employee_directory!decided_by(full_name)')
+      .in('leave_id', leaveIds)
+      .order('step_order');
+
+    if (error) {
+      console.error('Error fetching approval trail:', error);
+      return;
+    }
+
+    const grouped: Record<string, ApprovalStep[]> = {};
+    (data || []).forEach((step: ApprovalStep) => {
+      grouped[step.leave_id] = [...(grouped[step.leave_id] || []), step];
+    });
+    setApprovals(grouped);
+  };
+
+  // Who else in the requester's department is already on approved leave for those dates
+  const fetchCoverage = async (leaveIds: string[]) => {
+    if (leaveIds.length === 0) {
+      setCoverage({});
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_leave_coverage', { _leave_ids: leaveIds });
+
+    if (error) {
+      console.error('Error fetching leave coverage:', error);
+      return;
+    }
+
+    const grouped: Record<string, CoverageEntry[]> = {};
+    (data || []).forEach((entry: CoverageEntry) => {
+      grouped[entry.leave_id] = [...(grouped[entry.leave_id] || []), entry];
+    });
+    setCoverage(grouped);
+  };
+
+  const getCoverageIndicator = (leaveId: string) => {
+    const entries = coverage[leaveId] || [];
+
+    if (entries.length === 0) {
+      return <span className="text-xs text-muted-foreground">No overlap</span>;
+    }
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge variant="outline" className="border-warning text-warning cursor-default">
+            <Users className="h-3 w-3 mr-1" />
+            {entries.length} of {entries[0].department_size} out
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent className="text-left">
+          <p className="font-medium mb-1">Also out from {entries[0].department}</p>
+          {entries.map(entry => (
+            <p key={`${entry.colleague_id}:${entry.start_date}`} className="text-xs">
+              {entry.colleague_name}: {format(new Date(entry.start_date), 'MMM dd')} – {format(new Date(entry.end_date), 'MMM dd')}
+            </p>
+          ))}
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
   const handleApply = () => {
     setFormData({
       leave_type: 'vacation',
       start_date: '',
       end_date: '',
+      duration_type: 'full_day',
+      half_day_period: 'am',
+      hours: '',
       reason: '',
     });
+    setOverrideRequested(false);
     setIsDialogOpen(true);
   };
 
   const handleSubmit = async () => {
     try {
-      if (!formData.start_date || !formData.end_date || !formData.reason) {
+      if (!formData.start_date || !effectiveEndDate || !formData.reason) {
         toast.error('Please fill in all fields');
         return;
       }
 
-      const startDate = new Date(formData.start_date);
-      const endDate = new Date(formData.end_date);
-      const daysCount = differenceInDays(endDate, startDate) + 1;
-
-      if (daysCount <= 0) {
+      if (effectiveEndDate < formData.start_date) {
         toast.error('End date must be after start date');
         return;
       }
 
-      const { error } = await supabase.from('leaves').insert({
-        employee_id: user?.id,
+      if (workingDays === 0) {
+        toast.error('The selected dates contain no working days');
+        return;
+      }
+
+      if (formData.duration_type === 'hours') {
+        const hours = Number(formData.hours);
+        if (!(hours > 0) || hours > hoursPerDay) {
+          toast.error(`Hours must be between 0 and ${hoursPerDay}`);
+          return;
+        }
+      }
+
+      if (exceedsBalance && !overrideRequested) {
+        toast.error(`Only ${selectedBalance.remaining} day(s) of ${formData.leave_type} leave remaining`);
+        return;
+      }
+
+      if (!user) return;
+
+      // days_count is recalculated from working days by the database
+      const request: LeaveInsert = {
+        employee_id: user.id,
         leave_type: formData.leave_type,
         start_date: formData.start_date,
-        end_date: formData.end_date,
-        days_count: daysCount,
+        end_date: effectiveEndDate,
+        days_count: requestedDays,
+        duration_type: formData.duration_type,
+        half_day_period: formData.duration_type === 'half_day' ? formData.half_day_period : null,
+        hours: formData.duration_type === 'hours' ? Number(formData.hours) : null,
         reason: formData.reason,
         status: 'pending',
-      } as any);
+        exceeds_balance: exceedsBalance && overrideRequested,
+      };
+
+      const { data, error } = await supabase
+        .from('leaves')
+        .insert(request)
+        .select('id, days_count, duration_type, half_day_period, hours')
+        .single();
 
       if (error) throw error;
 
       // Log activity
       await supabase.rpc('log_activity', {
-        p_user_id: user?.id,
+        p_user_id: user.id,
         p_action: 'applied',
         p_entity_type: 'leave',
-        p_entity_id: null,
-        p_description: `Applied for ${daysCount} days of ${formData.leave_type} leave`,
+        p_entity_id: data.id,
+        p_description: `Applied for ${formatLeaveDuration(data)} of ${formData.leave_type} leave`,
       });
 
       toast.success('Leave application submitted successfully');
       setIsDialogOpen(false);
       fetchLeaves();
+      refreshBalances();
     } catch (error: any) {
       toast.error(error.message || 'Failed to submit leave application');
       console.error(error);
     }
   };
 
-  const handleStatusUpdate = async (leaveId: string, newStatus: 'approved' | 'rejected') => {
+  const openReview = (leave: Leave, status: 'approved' | 'rejected') => {
+    setReviewComment('');
+    setReviewAction({ leave, status });
+  };
+
+  const handleStatusUpdate = async () => {
+    if (!reviewAction) return;
+
+    const { leave, status: newStatus } = reviewAction;
+    const comment = reviewComment.trim();
+
+    if (newStatus === 'rejected' && !comment) {
+      toast.error('Please explain why the request is being rejected');
+      return;
+    }
+
     try {
-      const { error } = await supabase
-        .from('leaves')
-        .update({
-          status: newStatus,
-          reviewed_by: user?.id,
-          reviewed_at: new Date().toISOString(),
-        })
-        .eq('id', leaveId);
+      const { error } = await supabase.rpc('decide_leave_approval', {
+        _leave_id: leave.id,
+        _approve: newStatus === 'approved',
+        _comment: comment || null,
+      });
 
       if (error) throw error;
 
-      toast.success(`Leave ${newStatus} successfully`);
+      toast.success(newStatus === 'approved' ? 'Approval recorded successfully' : 'Leave rejected successfully');
+      setReviewAction(null);
       fetchLeaves();
     } catch (error: any) {
       toast.error(error.message || 'Failed to update leave status');
@@ -180,11 +503,72 @@ export default function Leaves() {
     }
   };
 
+  const handleWithdraw = async () => {
+    if (!withdrawLeave) return;
+
+    try {
+      const { error } = await supabase.rpc('withdraw_leave', { _leave_id: withdrawLeave.id });
+
+      if (error) throw error;
+
+      toast.success('Leave request withdrawn');
+      setWithdrawLeave(null);
+      fetchLeaves();
+      refreshBalances();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to withdraw leave request');
+      console.error(error);
+    }
+  };
+
+  const handleRequestCancellation = async () => {
+    if (!cancelLeave) return;
+
+    if (!cancellationReason.trim()) {
+      toast.error('Please provide a reason for the cancellation');
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('request_leave_cancellation', {
+        _leave_id: cancelLeave.id,
+        _reason: cancellationReason,
+      });
+
+      if (error) throw error;
+
+      toast.success('Cancellation request sent for review');
+      setCancelLeave(null);
+      fetchLeaves();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to request cancellation');
+      console.error(error);
+    }
+  };
+
+  const handleCancellationReview = async (leaveId: string, approve: boolean) => {
+    try {
+      const { error } = await supabase.rpc('review_leave_cancellation', {
+        _leave_id: leaveId,
+        _approve: approve,
+      });
+
+      if (error) throw error;
+
+      toast.success(approve ? 'Leave cancelled successfully' : 'Cancellation request declined');
+      fetchLeaves();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to review cancellation request');
+      console.error(error);
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
       pending: 'secondary',
       approved: 'default',
       rejected: 'destructive',
+      cancelled: 'outline',
     };
 
     return (
@@ -194,13 +578,217 @@ export default function Leaves() {
     );
   };
 
+  // Exports every matching request, not just the current page
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const data = await fetchAllRows((from, to) =>
+      queryLeaves().range(from, to).overrideTypes<Leave[], { merge: false }>()
+    );
+
+    const range = dateRange.from || dateRange.to ? `${dateRange.from || 'start'}-to-${dateRange.to || 'end'}` : 'all';
+
+    return exportTable(
+      {
+        headers: ['Employee', 'Email', 'Type', 'Start Date', 'End Date', 'Duration', 'Days', 'Reason', 'Status', 'Over Balance', 'Reviewer Comment', 'Requested At'],
+        rows: data.map(leave => [
+          leave.profiles?.full_name,
+          leave.contact?.email,
+          getLeaveTypeLabel(leave.leave_type),
+          leave.start_date,
+          leave.end_date,
+          formatLeaveDuration(leave),
+          Number(leave.days_count),
+          leave.reason,
+          leave.status,
+          leave.exceeds_balance ? 'Yes' : 'No',
+          leave.review_comment,
+          format(new Date(leave.created_at), 'yyyy-MM-dd HH:mm'),
+        ]),
+      },
+      `leaves-${range}`,
+      exportFormat,
+      'Leaves'
+    );
+  };
+
+  const requestsCard = (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search leaves..."
+              value={searchQuery}
+              onChange={(e) => handleSearchChange(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {showEmployeeColumn && (
+            <Select value={queueFilter} onValueChange={handleQueueFilterChange}>
+              <SelectTrigger className="w-52">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All requests</SelectItem>
+                <SelectItem value="awaiting">Awaiting my approval</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            type="date"
+            aria-label="From date"
+            value={dateRange.from}
+            onChange={(e) => handleDateRangeChange({ ...dateRange, from: e.target.value })}
+            className="w-40"
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={dateRange.to}
+            min={dateRange.from || undefined}
+            onChange={(e) => handleDateRangeChange({ ...dateRange, to: e.target.value })}
+            className="w-40"
+          />
+          <ExportMenu onExport={handleExport} disabled={loading || totalLeaves === 0} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {showEmployeeColumn && <TableHead>Employee</TableHead>}
+                  <SortableTableHead column="leave_type" sort={sort} onSort={handleSort}>Type</SortableTableHead>
+                  <SortableTableHead column="start_date" sort={sort} onSort={handleSort}>Start Date</SortableTableHead>
+                  <SortableTableHead column="end_date" sort={sort} onSort={handleSort}>End Date</SortableTableHead>
+                  <SortableTableHead column="days_count" sort={sort} onSort={handleSort}>Days</SortableTableHead>
+                  <TableHead>Reason</TableHead>
+                  <SortableTableHead column="status" sort={sort} onSort={handleSort}>Status</SortableTableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leaves.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={showEmployeeColumn ? 8 : 7} className="text-center py-8 text-muted-foreground">
+                      No leave requests found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  leaves.map((leave) => (
+                    <TableRow key={leave.id}>
+                      {showEmployeeColumn && (
+                        <TableCell className="font-medium">{leave.profiles?.full_name || 'Unknown'}</TableCell>
+                      )}
+                      <TableCell className="capitalize">{leave.leave_type}</TableCell>
+                      <TableCell>{format(new Date(leave.start_date), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{format(new Date(leave.end_date), 'MMM dd, yyyy')}</TableCell>
+                      <TableCell>{formatLeaveDuration(leave)}</TableCell>
+                      <TableCell className="max-w-xs truncate">{leave.reason}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {getStatusBadge(leave.status)}
+                          <ApprovalTrail steps={approvals[leave.id] || []} />
+                          {leave.exceeds_balance && (
+                            <Badge variant="outline" className="border-warning text-warning">
+                              Over balance
+                            </Badge>
+                          )}
+                          {leave.status === 'approved' && leave.cancellation_requested_at && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Badge variant="outline" className="border-warning text-warning cursor-default">
+                                  Cancellation requested
+                                </Badge>
+                              </TooltipTrigger>
+                              <TooltipContent>{leave.cancellation_reason}</TooltipContent>
+                            </Tooltip>
+                          )}
+                        </div>
+                        {leave.review_comment && (
+                          <p className="text-xs text-muted-foreground mt-1 max-w-xs truncate" title={leave.review_comment}>
+                            Reviewer: {leave.review_comment}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          {leave.employee_id === user?.id && leave.status === 'pending' && (
+                            <Button size="sm" variant="outline" onClick={() => setWithdrawLeave(leave)}>
+                              Withdraw
+                            </Button>
+                          )}
+                          {leave.employee_id === user?.id &&
+                            leave.status === 'approved' &&
+                            !leave.cancellation_requested_at && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => {
+                                  setCancellationReason('');
+                                  setCancelLeave(leave);
+                                }}
+                              >
+                                Request Cancellation
+                              </Button>
+                            )}
+                          {hasPermission('leave.approve') && leave.status === 'approved' && leave.cancellation_requested_at && (
+                            <>
+                              <Button size="sm" variant="destructive" onClick={() => handleCancellationReview(leave.id, true)}>
+                                Approve Cancellation
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleCancellationReview(leave.id, false)}>
+                                Keep Leave
+                              </Button>
+                            </>
+                          )}
+                          {leave.status === 'pending' && isAwaitingMe(leave.id) && (
+                            <div className="flex items-center justify-end gap-2">
+                              {getCoverageIndicator(leave.id)}
+                              <Button
+                                size="sm"
+                                variant="default"
+                                onClick={() => openReview(leave, 'approved')}
+                              >
+                                Approve
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => openReview(leave, 'rejected')}
+                              >
+                                Reject
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <TablePagination page={page} total={totalLeaves} onPageChange={setPage} />
+      </CardContent>
+    </Card>
+  );
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-foreground">Leave Management</h1>
           <p className="text-muted-foreground mt-1">
-            {userRole === 'admin' ? 'Review and manage leave requests' : 'Apply and track your leave requests'}
+            {showEmployeeColumn ? 'Review and manage leave requests' : 'Apply and track your leave requests'}
           </p>
         </div>
         <Button onClick={handleApply}>
@@ -209,92 +797,20 @@ export default function Leaves() {
         </Button>
       </div>
 
-      <Card>
-        <CardHeader>
-          <div className="flex items-center gap-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search leaves..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-          </div>
-        </CardHeader>
-        <CardContent>
-          {loading ? (
-            <div className="space-y-2">
-              {Array.from({ length: 5 }).map((_, i) => (
-                <Skeleton key={i} className="h-16 w-full" />
-              ))}
-            </div>
-          ) : (
-            <div className="rounded-md border">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    {userRole === 'admin' && <TableHead>Employee</TableHead>}
-                    <TableHead>Type</TableHead>
-                    <TableHead>Start Date</TableHead>
-                    <TableHead>End Date</TableHead>
-                    <TableHead>Days</TableHead>
-                    <TableHead>Reason</TableHead>
-                    <TableHead>Status</TableHead>
-                    {userRole === 'admin' && <TableHead className="text-right">Actions</TableHead>}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredLeaves.length === 0 ? (
-                    <TableRow>
-                      <TableCell colSpan={userRole === 'admin' ? 8 : 7} className="text-center py-8 text-muted-foreground">
-                        No leave requests found
-                      </TableCell>
-                    </TableRow>
-                  ) : (
-                    filteredLeaves.map((leave) => (
-                      <TableRow key={leave.id}>
-                        {userRole === 'admin' && (
-                          <TableCell className="font-medium">{leave.profiles?.full_name || 'Unknown'}</TableCell>
-                        )}
-                        <TableCell className="capitalize">{leave.leave_type}</TableCell>
-                        <TableCell>{format(new Date(leave.start_date), 'MMM dd, yyyy')}</TableCell>
-                        <TableCell>{format(new Date(leave.end_date), 'MMM dd, yyyy')}</TableCell>
-                        <TableCell>{leave.days_count}</TableCell>
-                        <TableCell className="max-w-xs truncate">{leave.reason}</TableCell>
-                        <TableCell>{getStatusBadge(leave.status)}</TableCell>
-                        {userRole === 'admin' && (
-                          <TableCell className="text-right">
-                            {leave.status === 'pending' && (
-                              <div className="flex justify-end gap-2">
-                                <Button
-                                  size="sm"
-                                  variant="default"
-                                  onClick={() => handleStatusUpdate(leave.id, 'approved')}
-                                >
-                                  Approve
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="destructive"
-                                  onClick={() => handleStatusUpdate(leave.id, 'rejected')}
-                                >
-                                  Reject
-                                </Button>
-                              </div>
-                            )}
-                          </TableCell>
-                        )}
-                      </TableRow>
-                    ))
-                  )}
-                </TableBody>
-              </Table>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      {hasPermission('leave.manage') ? (
+        <Tabs defaultValue="requests" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="requests">Requests</TabsTrigger>
+            <TabsTrigger value="approval-chain">Approval Chain</TabsTrigger>
+          </TabsList>
+          <TabsContent value="requests">{requestsCard}</TabsContent>
+          <TabsContent value="approval-chain">
+            <ApprovalChainSettings />
+          </TabsContent>
+        </Tabs>
+      ) : (
+        requestsCard
+      )}
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
@@ -307,22 +823,43 @@ export default function Leaves() {
               <Label htmlFor="leave_type">Leave Type</Label>
               <Select
                 value={formData.leave_type}
-                onValueChange={(value) => setFormData({ ...formData, leave_type: value })}
+                onValueChange={(value) => setFormData({ ...formData, leave_type: value as LeaveType })}
               >
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="sick">Sick Leave</SelectItem>
-                  <SelectItem value="vacation">Vacation</SelectItem>
-                  <SelectItem value="personal">Personal Leave</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
+                  {LEAVE_TYPES.map(type => (
+                    <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedBalance && (
+                <p className="text-sm text-muted-foreground">
+                  {selectedBalance.remaining} of {selectedBalance.entitled} days available in {requestYear}
+                  {selectedBalance.pending > 0 && ` (${selectedBalance.pending} pending)`}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="duration_type">Duration</Label>
+              <Select
+                value={formData.duration_type}
+                onValueChange={(value) => setFormData({ ...formData, duration_type: value as LeaveDuration })}
+              >
+                <SelectTrigger id="duration_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAVE_DURATIONS.map(duration => (
+                    <SelectItem key={duration.value} value={duration.value}>{duration.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
-                <Label htmlFor="start_date">Start Date</Label>
+                <Label htmlFor="start_date">{isPartialDay ? 'Date' : 'Start Date'}</Label>
                 <Input
                   id="start_date"
                   type="date"
@@ -330,16 +867,56 @@ export default function Leaves() {
                   onChange={(e) => setFormData({ ...formData, start_date: e.target.value })}
                 />
               </div>
-              <div className="space-y-2">
-                <Label htmlFor="end_date">End Date</Label>
-                <Input
-                  id="end_date"
-                  type="date"
-                  value={formData.end_date}
-                  onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
-                />
-              </div>
+              {formData.duration_type === 'full_day' && (
+                <div className="space-y-2">
+                  <Label htmlFor="end_date">End Date</Label>
+                  <Input
+                    id="end_date"
+                    type="date"
+                    value={formData.end_date}
+                    onChange={(e) => setFormData({ ...formData, end_date: e.target.value })}
+                  />
+                </div>
+              )}
+              {formData.duration_type === 'half_day' && (
+                <div className="space-y-2">
+                  <Label htmlFor="half_day_period">Period</Label>
+                  <Select
+                    value={formData.half_day_period}
+                    onValueChange={(value) => setFormData({ ...formData, half_day_period: value as LeaveForm['half_day_period'] })}
+                  >
+                    <SelectTrigger id="half_day_period">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="am">Morning (AM)</SelectItem>
+                      <SelectItem value="pm">Afternoon (PM)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {formData.duration_type === 'hours' && (
+                <div className="space-y-2">
+                  <Label htmlFor="hours">Hours</Label>
+                  <Input
+                    id="hours"
+                    type="number"
+                    min={0.25}
+                    max={hoursPerDay}
+                    step={0.25}
+                    value={formData.hours}
+                    onChange={(e) => setFormData({ ...formData, hours: e.target.value })}
+                  />
+                </div>
+              )}
             </div>
+            {formData.start_date && effectiveEndDate && effectiveEndDate >= formData.start_date && (
+              <p className="text-sm text-muted-foreground">
+                {workingDays === 0
+                  ? 'The selected dates contain no working days'
+                  : `${requestedDays} working day(s), excluding weekends and company holidays`}
+              </p>
+            )}
             <div className="space-y-2">
               <Label htmlFor="reason">Reason</Label>
               <Textarea
@@ -350,6 +927,24 @@ export default function Leaves() {
                 rows={4}
               />
             </div>
+            {exceedsBalance && (
+              <div className="rounded-md border border-warning bg-warning/10 p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <AlertTriangle className="h-4 w-4 text-warning" />
+                  This request of {requestedDays} day(s) exceeds your remaining balance.
+                </div>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="override_requested"
+                    checked={overrideRequested}
+                    onCheckedChange={(checked) => setOverrideRequested(checked === true)}
+                  />
+                  <Label htmlFor="override_requested" className="text-sm font-normal">
+                    Submit anyway and ask an admin to approve an override
+                  </Label>
+                </div>
+              </div>
+            )}
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
@@ -359,6 +954,85 @@ export default function Leaves() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <Dialog open={!!reviewAction} onOpenChange={(open) => !open && setReviewAction(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{reviewAction?.status === 'approved' ? 'Approve Leave' : 'Reject Leave'}</DialogTitle>
+            <DialogDescription>
+              {reviewAction?.leave.profiles?.full_name}'s {reviewAction?.leave.leave_type} leave,{' '}
+              {reviewAction && formatLeaveDuration(reviewAction.leave)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review_comment">
+              Comment {reviewAction?.status === 'approved' && <span className="text-muted-foreground">(optional)</span>}
+            </Label>
+            <Textarea
+              id="review_comment"
+              value={reviewComment}
+              onChange={(e) => setReviewComment(e.target.value)}
+              placeholder={reviewAction?.status === 'rejected'
+                ? 'Explain why this request is being rejected...'
+                : 'Add a note for the employee...'}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewAction(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={reviewAction?.status === 'rejected' ? 'destructive' : 'default'}
+              onClick={handleStatusUpdate}
+            >
+              {reviewAction?.status === 'approved' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!withdrawLeave} onOpenChange={(open) => !open && setWithdrawLeave(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw leave request?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your {withdrawLeave?.leave_type} leave request will be cancelled and no longer sent for review.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Request</AlertDialogCancel>
+            <AlertDialogAction onClick={handleWithdraw}>Withdraw</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={!!cancelLeave} onOpenChange={(open) => !open && setCancelLeave(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request Cancellation</DialogTitle>
+            <DialogDescription>
+              An admin will review your request. Your balance is restored once the cancellation is approved.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancellation_reason">Reason</Label>
+            <Textarea
+              id="cancellation_reason"
+              value={cancellationReason}
+              onChange={(e) => setCancellationReason(e.target.value)}
+              placeholder="Why do you need to cancel this leave?"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancelLeave(null)}>
+              Back
+            </Button>
+            <Button onClick={handleRequestCancellation}>Send Request</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
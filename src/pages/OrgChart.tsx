@@ -0,0 +1,349 @@
+import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { UserAvatar } from '@/components/UserAvatar';
+import { Download, Mail, Phone, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { ImageFormat, exportSvgImage } from '@/lib/export';
+import { fetchAllRows } from '@/lib/table-query';
+import {
+  ORG_NODE_HEIGHT,
+  ORG_NODE_WIDTH,
+  OrgPerson,
+  buildOrgTree,
+  getAncestorIds,
+  layoutOrgChart,
+} from '@/lib/orgchart';
+
+interface Person extends OrgPerson {
+  email?: string;
+  phone?: string | null;
+  avatar_url: string | null;
+}
+
+// Levels shown expanded on first load; deeper teams start collapsed
+const INITIAL_DEPTH = 2;
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+export default function OrgChart() {
+  const { user, hasPermission } = useAuth();
+  const canViewContacts = hasPermission('employee.edit');
+  const navigate = useNavigate();
+  const [people, setPeople] = useState<Person[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchPeople = useCallback(async () => {
+    try {
+      setLoading(true);
+      // The whole company is needed to build the tree, so page past the row cap
+      const [directory, contactRows] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from('employee_directory')
+            .select('id, full_name, position, department, manager_id, avatar_url')
+            .is('terminated_at', null)
+            .order('full_name')
+            .order('id')
+            .range(from, to)
+        ),
+        // Email and phone are only readable by employee editors
+        canViewContacts
+          ? fetchAllRows((from, to) =>
+              supabase
+                .from('profiles')
+                .select('id, email, phone')
+                .is('terminated_at', null)
+                .order('id')
+                .range(from, to)
+            )
+          : Promise.resolve([]),
+      ]);
+
+      const contacts = new Map(contactRows.map(c => [c.id, c]));
+      const data: Person[] = directory.map(person => ({ ...person, ...contacts.get(person.id) }));
+
+      const roots = buildOrgTree<Person>(data);
+      const deep = new Set<string>();
+      const collapseDeep = (nodes: typeof roots) => nodes.forEach(node => {
+        if (node.depth >= INITIAL_DEPTH - 1 && node.children.length > 0) deep.add(node.person.id);
+        collapseDeep(node.children);
+      });
+      collapseDeep(roots);
+
+      setPeople(data);
+      setCollapsed(deep);
+    } catch (error) {
+      toast.error('Failed to fetch organisation chart');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  }, [canViewContacts]);
+
+  useEffect(() => {
+    fetchPeople();
+  }, [fetchPeople]);
+
+  const roots = useMemo(() => buildOrgTree(people), [people]);
+
+  const matchIds = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return [];
+    return people
+      .filter(p => [p.full_name, p.position, p.department].some(value => value?.toLowerCase().includes(query)))
+      .map(p => p.id);
+  }, [people, searchQuery]);
+
+  // Matches stay visible by opening every collapsed manager above them
+  const chart = useMemo(() => {
+    const ancestors = getAncestorIds(people, matchIds);
+    const visibleCollapsed = new Set([...collapsed].filter(id => !ancestors.has(id)));
+    return layoutOrgChart(roots, visibleCollapsed);
+  }, [roots, people, collapsed, matchIds]);
+
+  useEffect(() => {
+    if (matchIds.length === 0) return;
+    document.getElementById(`org-node-${matchIds[0]}`)?.scrollIntoView({ block: 'center', inline: 'center', behavior: 'smooth' });
+  }, [matchIds]);
+
+  const toggle = (personId: string) => {
+    const next = new Set(collapsed);
+    if (next.has(personId)) next.delete(personId);
+    else next.add(personId);
+    setCollapsed(next);
+  };
+
+  const managers = people.filter(p => people.some(r => r.manager_id === p.id)).map(p => p.id);
+  const getName = (personId: string | null) => people.find(p => p.id === personId)?.full_name;
+  const directReports = people.filter(p => selectedPerson && p.manager_id === selectedPerson.id);
+
+  const handleExport = async (format: ImageFormat) => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    try {
+      setExporting(true);
+      await exportSvgImage(svgRef.current, 'org-chart', format, getComputedStyle(containerRef.current).backgroundColor);
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to export chart');
+      console.error(error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Org Chart</h1>
+          <p className="text-muted-foreground mt-1">See who reports to whom</p>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" disabled={loading || exporting || people.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? 'Exporting...' : 'Export'}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('svg')}>Vector (.svg)</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('png')}>Image (.png)</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="relative flex-1 min-w-60">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, position or department..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            {searchQuery.trim() && (
+              <p className="text-sm text-muted-foreground">
+                {matchIds.length} {matchIds.length === 1 ? 'match' : 'matches'}
+              </p>
+            )}
+            <Button variant="outline" onClick={() => setCollapsed(new Set())}>Expand All</Button>
+            <Button variant="outline" onClick={() => setCollapsed(new Set(managers))}>Collapse All</Button>
+          </div>
+
+          {loading ? (
+            <Skeleton className="h-96 w-full" />
+          ) : people.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No employees found</p>
+          ) : (
+            <div ref={containerRef} className="overflow-auto rounded-md border bg-card p-6 max-h-[70vh]">
+              <svg
+                ref={svgRef}
+                width={chart.width + 2}
+                height={chart.height + 12}
+                viewBox={`-1 -1 ${chart.width + 2} ${chart.height + 12}`}
+                className="font-sans"
+              >
+                {chart.links.map(({ from, to }) => {
+                  const startX = from.x + ORG_NODE_WIDTH / 2;
+                  const startY = from.y + ORG_NODE_HEIGHT;
+                  const endX = to.x + ORG_NODE_WIDTH / 2;
+                  const midY = (startY + to.y) / 2;
+                  return (
+                    <path
+                      key={`${from.node.person.id}-${to.node.person.id}`}
+                      d={`M ${startX} ${startY} V ${midY} H ${endX} V ${to.y}`}
+                      className="fill-none stroke-border"
+                    />
+                  );
+                })}
+                {chart.nodes.map(({ node, x, y, collapsed: isCollapsed }) => {
+                  const person = node.person as Person;
+                  const isMatch = matchIds.includes(person.id);
+                  return (
+                    <g
+                      key={person.id}
+                      id={`org-node-${person.id}`}
+                      transform={`translate(${x}, ${y})`}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedPerson(person)}
+                    >
+                      <rect
+                        width={ORG_NODE_WIDTH}
+                        height={ORG_NODE_HEIGHT}
+                        rx={8}
+                        strokeWidth={isMatch ? 2 : 1}
+                        className={cn(
+                          person.id === user?.id ? 'fill-accent' : 'fill-card',
+                          isMatch ? 'stroke-primary' : 'stroke-border',
+                        )}
+                      />
+                      <text x={12} y={22} className="fill-foreground text-[13px] font-semibold">
+                        {truncate(person.full_name, 24)}
+                      </text>
+                      <text x={12} y={40} className="fill-muted-foreground text-xs">
+                        {truncate(person.position || 'Employee', 28)}
+                      </text>
+                      {person.department && (
+                        <text x={12} y={55} className="fill-muted-foreground text-[11px]">
+                          {truncate(person.department, 30)}
+                        </text>
+                      )}
+                      {node.children.length > 0 && (
+                        <g
+                          transform={`translate(${ORG_NODE_WIDTH / 2}, ${ORG_NODE_HEIGHT})`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            toggle(person.id);
+                          }}
+                        >
+                          <circle r={10} className="fill-background stroke-border" />
+                          <text textAnchor="middle" dy="0.35em" className="fill-muted-foreground text-[10px] font-medium">
+                            {isCollapsed ? `+${node.children.length}` : '−'}
+                          </text>
+                        </g>
+                      )}
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedPerson} onOpenChange={(open) => !open && setSelectedPerson(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-4">
+              <UserAvatar name={selectedPerson?.full_name} avatarUrl={selectedPerson?.avatar_url} className="h-12 w-12" />
+              <div>
+                <DialogTitle>{selectedPerson?.full_name}</DialogTitle>
+                <DialogDescription>
+                  {[selectedPerson?.position || 'Employee', selectedPerson?.department].filter(Boolean).join(' · ')}
+                </DialogDescription>
+              </div>
+            </div>
+          </DialogHeader>
+          <div className="space-y-3 text-sm">
+            {selectedPerson?.email && (
+              <div className="flex items-center gap-2">
+                <Mail className="h-4 w-4 text-muted-foreground" />
+                <a href={`mailto:${selectedPerson.email}`} className="hover:underline">{selectedPerson.email}</a>
+              </div>
+            )}
+            {selectedPerson?.phone && (
+              <div className="flex items-center gap-2">
+                <Phone className="h-4 w-4 text-muted-foreground" />
+                {selectedPerson.phone}
+              </div>
+            )}
+            <div>
+              <span className="text-muted-foreground">Reports to: </span>
+              {selectedPerson?.manager_id && getName(selectedPerson.manager_id) ? (
+                <button
+                  className="font-medium hover:underline"
+                  onClick={() => setSelectedPerson(people.find(p => p.id === selectedPerson.manager_id) || null)}
+                >
+                  {getName(selectedPerson.manager_id)}
+                </button>
+              ) : (
+                '-'
+              )}
+            </div>
+            {directReports.length > 0 && (
+              <div>
+                <p className="text-muted-foreground mb-1">Direct reports ({directReports.length})</p>
+                <div className="flex flex-wrap gap-x-3 gap-y-1">
+                  {directReports.map(report => (
+                    <button key={report.id} className="font-medium hover:underline" onClick={() => setSelectedPerson(report)}>
+                      {report.full_name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+          {selectedPerson && (selectedPerson.id === user?.id || hasPermission('employee.view')) && (
+            <DialogFooter>
+              {hasPermission('employee.view') ? (
+                <Button onClick={() => navigate(`/employees/${selectedPerson.id}`)}>View Full Profile</Button>
+              ) : (
+                <Button onClick={() => navigate('/profile')}>Open My Profile</Button>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
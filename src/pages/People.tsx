@@ -0,0 +1,211 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { LayoutGrid, List, Search } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { UserAvatar } from '@/components/UserAvatar';
+import { DirectoryPerson, PersonPopover } from '@/components/PersonPopover';
+import { useDepartments } from '@/hooks/use-departments';
+import { PublicDetails, formatLocation } from '@/lib/personal-details';
+import { fetchAllRows } from '@/lib/table-query';
+
+type ViewMode = 'cards' | 'list';
+
+export default function People() {
+  const { departments } = useDepartments();
+  const [people, setPeople] = useState<DirectoryPerson[]>([]);
+  const [details, setDetails] = useState<Map<string, PublicDetails>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [departmentFilter, setDepartmentFilter] = useState('all');
+  const [viewMode, setViewMode] = useState<ViewMode>('cards');
+
+  useEffect(() => {
+    fetchPeople();
+  }, []);
+
+  const fetchPeople = async () => {
+    try {
+      setLoading(true);
+      // Directory and shared details only, so this page is safe for every employee
+      // Everyone is listed at once, so page past the per-request row cap
+      const [directory, publicDetails] = await Promise.all([
+        fetchAllRows((from, to) =>
+          supabase
+            .from('employee_directory')
+            .select('id, full_name, department, department_id, position, manager_id, avatar_url, hire_date')
+            .is('terminated_at', null)
+            .order('full_name')
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllRows<PublicDetails>((from, to) =>
+          supabase.from('employee_public_details').select('*').order('employee_id').range(from, to)
+        ),
+      ]);
+
+      setPeople(directory);
+      setDetails(new Map(publicDetails.map(d => [d.employee_id, d])));
+    } catch (error) {
+      toast.error('Failed to fetch people');
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const names = useMemo(() => new Map(people.map(p => [p.id, p.full_name])), [people]);
+
+  const filteredPeople = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return people.filter(person =>
+      (departmentFilter === 'all' || person.department_id === departmentFilter) &&
+      (!query ||
+        person.full_name.toLowerCase().includes(query) ||
+        person.position?.toLowerCase().includes(query) ||
+        person.department?.toLowerCase().includes(query))
+    );
+  }, [people, searchQuery, departmentFilter]);
+
+  const renderPopover = (person: DirectoryPerson, trigger: JSX.Element) => (
+    <PersonPopover
+      key={person.id}
+      person={person}
+      managerName={person.manager_id ? names.get(person.manager_id) : undefined}
+      details={details.get(person.id)}
+    >
+      {trigger}
+    </PersonPopover>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">People</h1>
+        <p className="text-muted-foreground mt-1">Find colleagues across the company</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, position or department..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={departmentFilter} onValueChange={setDepartmentFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Departments</SelectItem>
+                {departments.map(department => (
+                  <SelectItem key={department.id} value={department.id}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ToggleGroup
+              type="single"
+              variant="outline"
+              value={viewMode}
+              onValueChange={(value) => value && setViewMode(value as ViewMode)}
+            >
+              <ToggleGroupItem value="cards" aria-label="Card view">
+                <LayoutGrid className="h-4 w-4" />
+              </ToggleGroupItem>
+              <ToggleGroupItem value="list" aria-label="List view">
+                <List className="h-4 w-4" />
+              </ToggleGroupItem>
+            </ToggleGroup>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {Array.from({ length: 8 }).map((_, i) => (
+                <Skeleton key={i} className="h-24 w-full" />
+              ))}
+            </div>
+          ) : filteredPeople.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No people found</p>
+          ) : viewMode === 'cards' ? (
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {filteredPeople.map(person => renderPopover(person, (
+                <button className="flex items-center gap-3 rounded-md border p-4 text-left transition-colors hover:bg-accent">
+                  <UserAvatar name={person.full_name} avatarUrl={person.avatar_url} className="h-12 w-12" />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{person.full_name}</p>
+                    <p className="text-sm text-muted-foreground truncate">{person.position || 'Employee'}</p>
+                    <p className="text-xs text-muted-foreground truncate">{person.department || '-'}</p>
+                  </div>
+                </button>
+              )))}
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Position</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Location</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredPeople.map(person => {
+                    const shared = details.get(person.id);
+                    return (
+                      <TableRow key={person.id}>
+                        <TableCell className="font-medium">
+                          {renderPopover(person, (
+                            <button className="flex items-center gap-2 hover:underline">
+                              <UserAvatar
+                                name={person.full_name}
+                                avatarUrl={person.avatar_url}
+                                className="h-8 w-8"
+                                fallbackClassName="text-xs"
+                              />
+                              {person.full_name}
+                            </button>
+                          ))}
+                        </TableCell>
+                        <TableCell>{person.position || '-'}</TableCell>
+                        <TableCell>{person.department || '-'}</TableCell>
+                        <TableCell>{(shared && formatLocation(shared)) || '-'}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,8 +7,15 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { User, Mail, Phone, Briefcase, Calendar } from 'lucide-react';
+import { User, Mail, Phone, Briefcase, Calendar, Camera } from 'lucide-react';
+import { UserAvatar } from '@/components/UserAvatar';
+import { AvatarCropDialog } from '@/components/AvatarCropDialog';
+import { ProfileChangeRequests } from '@/components/ProfileChangeRequests';
+import { PersonalDetailsCard } from '@/components/PersonalDetailsCard';
+import { EmergencyContactsCard } from '@/components/EmergencyContactsCard';
+
+const AVATAR_BUCKET = 'avatars';
+const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
 
 interface Profile {
   id: string;
@@ -18,13 +25,17 @@ interface Profile {
   position: string | null;
   phone: string | null;
   hire_date: string | null;
+  avatar_url: string | null;
 }
 
 export default function Profile() {
-  const { user } = useAuth();
+  const { user, refreshProfile } = useAuth();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [savingAvatar, setSavingAvatar] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
   const [formData, setFormData] = useState({
     full_name: '',
     phone: '',
@@ -75,6 +86,7 @@ export default function Profile() {
 
       toast.success('Profile updated successfully');
       fetchProfile();
+      refreshProfile();
     } catch (error: any) {
       toast.error(error.message || 'Failed to update profile');
       console.error(error);
@@ -83,9 +95,73 @@ export default function Profile() {
     }
   };
 
-  const getUserInitials = () => {
-    if (!profile?.full_name) return 'U';
-    return profile.full_name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
+  const handleAvatarSelected = (file: File) => {
+    if (!file.type.startsWith('image/')) {
+      toast.error('Please choose an image file');
+      return;
+    }
+    if (file.size > MAX_SOURCE_BYTES) {
+      toast.error('Images must be 10 MB or smaller');
+      return;
+    }
+    setAvatarFile(file);
+  };
+
+  // The cropped image always lands at <user_id>/avatar.jpg; the version
+  // parameter makes browsers and the CDN pick up a replaced picture
+  const handleAvatarCrop = async (image: Blob) => {
+    if (!user) return;
+
+    try {
+      setSavingAvatar(true);
+      const path = `${user.id}/avatar.jpg`;
+      const { error: uploadError } = await supabase.storage
+        .from(AVATAR_BUCKET)
+        .upload(path, image, { contentType: 'image/jpeg', upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
+      const { error } = await supabase
+        .from('profiles')
+        .update({ avatar_url: `${data.publicUrl}?v=${Date.now()}` })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      toast.success('Profile picture updated');
+      setAvatarFile(null);
+      fetchProfile();
+      refreshProfile();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to update profile picture');
+      console.error(error);
+    } finally {
+      setSavingAvatar(false);
+    }
+  };
+
+  const handleAvatarRemove = async () => {
+    if (!user) return;
+
+    try {
+      setSavingAvatar(true);
+      const { error } = await supabase.from('profiles').update({ avatar_url: null }).eq('id', user.id);
+
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage.from(AVATAR_BUCKET).remove([`${user.id}/avatar.jpg`]);
+      if (storageError) console.error(storageError);
+
+      toast.success('Profile picture removed');
+      fetchProfile();
+      refreshProfile();
+    } catch (error) {
+      toast.error((error as Error).message || 'Failed to remove profile picture');
+      console.error(error);
+    } finally {
+      setSavingAvatar(false);
+    }
   };
 
   if (loading) {
@@ -119,11 +195,34 @@ export default function Profile() {
             <CardTitle>Profile Picture</CardTitle>
           </CardHeader>
           <CardContent className="flex flex-col items-center space-y-4">
-            <Avatar className="h-32 w-32">
-              <AvatarFallback className="bg-primary text-primary-foreground text-3xl">
-                {getUserInitials()}
-              </AvatarFallback>
-            </Avatar>
+            <UserAvatar
+              name={profile?.full_name}
+              avatarUrl={profile?.avatar_url}
+              className="h-32 w-32"
+              fallbackClassName="text-3xl"
+            />
+            <input
+              ref={avatarInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleAvatarSelected(file);
+              }}
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" disabled={savingAvatar} onClick={() => avatarInputRef.current?.click()}>
+                <Camera className="h-4 w-4 mr-2" />
+                {profile?.avatar_url ? 'Change' : 'Upload'}
+              </Button>
+              {profile?.avatar_url && (
+                <Button variant="ghost" size="sm" disabled={savingAvatar} onClick={handleAvatarRemove}>
+                  Remove
+                </Button>
+              )}
+            </div>
             <div className="text-center">
               <p className="font-semibold text-lg">{profile?.full_name}</p>
               <p className="text-sm text-muted-foreground">{profile?.position || 'Employee'}</p>
@@ -223,6 +322,22 @@ export default function Profile() {
           </CardContent>
         </Card>
       </div>
+
+      {profile && <ProfileChangeRequests profile={profile} />}
+
+      {user && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <PersonalDetailsCard employeeId={user.id} />
+          <EmergencyContactsCard employeeId={user.id} />
+        </div>
+      )}
+
+      <AvatarCropDialog
+        file={avatarFile}
+        saving={savingAvatar}
+        onCancel={() => setAvatarFile(null)}
+        onCrop={handleAvatarCrop}
+      />
     </div>
   );
 }
@@ -0,0 +1,71 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1'
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message)
+  }
+}
+
+export function jsonResponse(body: unknown, status = 200) {
+  return new Response(
+    JSON.stringify(body),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+  )
+}
+
+export function errorResponse(error: unknown) {
+  const status = error instanceof HttpError ? error.status : 500
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+  return jsonResponse({ error: errorMessage }, status)
+}
+
+export function createAdminClient() {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+  return createClient(supabaseUrl, supabaseServiceKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  })
+}
+
+// Resolves the calling user from their JWT
+export async function getCaller(req: Request, supabaseAdmin: SupabaseClient) {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization header')
+  }
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token)
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid or expired session')
+  }
+
+  return user
+}
+
+export async function assertPermission(supabaseAdmin: SupabaseClient, userId: string, permission: string) {
+  const { data: allowed, error } = await supabaseAdmin.rpc('has_permission', {
+    _user_id: userId,
+    _permission: permission
+  })
+
+  if (error) throw error
+  if (!allowed) {
+    throw new HttpError(403, `Missing permission: ${permission}`)
+  }
+}
+
+// Rejects callers whose role does not grant the permission
+export async function requirePermission(req: Request, supabaseAdmin: SupabaseClient, permission: string) {
+  const user = await getCaller(req, supabaseAdmin)
+  await assertPermission(supabaseAdmin, user.id, permission)
+  return user
+}
@@ -0,0 +1,102 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.81.1'
+import { HttpError } from './admin.ts'
+
+export const APP_ROLES = ['admin', 'hr', 'manager', 'payroll', 'auditor', 'employee'] as const
+export type AppRole = typeof APP_ROLES[number]
+
+export interface NewEmployee {
+  email: string
+  full_name: string
+  // Either a department id or a department name (matched case-insensitively)
+  department_id?: string | null
+  department?: string | null
+  position?: string | null
+  phone?: string | null
+  hire_date?: string | null
+  manager_id?: string | null
+  role: AppRole
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Trims and checks a new employee, throwing a 400 describing the first problem
+export function normalizeNewEmployee(input: NewEmployee): NewEmployee {
+  const email = input.email?.trim().toLowerCase()
+  const fullName = input.full_name?.trim()
+  const role = input.role || 'employee'
+
+  if (!email || !EMAIL_PATTERN.test(email)) {
+    throw new HttpError(400, 'A valid email address is required')
+  }
+  if (!fullName) {
+    throw new HttpError(400, 'Full name is required')
+  }
+  if (!APP_ROLES.includes(role)) {
+    throw new HttpError(400, `Role must be one of: ${APP_ROLES.join(', ')}`)
+  }
+  if (input.hire_date && (!DATE_PATTERN.test(input.hire_date) || Number.isNaN(Date.parse(input.hire_date)))) {
+    throw new HttpError(400, 'Hire date must be a valid YYYY-MM-DD date')
+  }
+
+  return {
+    email,
+    full_name: fullName,
+    department_id: input.department_id || null,
+    department: input.department?.trim() || null,
+    position: input.position?.trim() || null,
+    phone: input.phone?.trim() || null,
+    hire_date: input.hire_date || null,
+    manager_id: input.manager_id || null,
+    role
+  }
+}
+
+// Invites the auth user, fills in the profile and assigns the role; rolls back on failure
+export async function createEmployee(supabaseAdmin: SupabaseClient, employee: NewEmployee, redirectTo?: string) {
+  console.log(`Inviting employee: ${employee.email}`)
+
+  // Creates the auth user (and, via handle_new_user, the profile) and emails a set-password link
+  const { data: authData, error: authError } = await supabaseAdmin.auth.admin.inviteUserByEmail(employee.email, {
+    data: { full_name: employee.full_name },
+    redirectTo
+  })
+
+  if (authError) {
+    console.error(`Error inviting ${employee.email}:`, authError)
+    throw new HttpError(400, authError.message)
+  }
+
+  const userId = authData.user.id
+
+  try {
+    const { error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .update({
+        full_name: employee.full_name,
+        ...(employee.department_id ? { department_id: employee.department_id } : { department: employee.department }),
+        position: employee.position,
+        phone: employee.phone,
+        hire_date: employee.hire_date,
+        manager_id: employee.manager_id
+      })
+      .eq('id', userId)
+
+    if (profileError) throw profileError
+
+    const { error: roleError } = await supabaseAdmin
+      .from('user_roles')
+      .insert({ user_id: userId, role: employee.role })
+
+    if (roleError) throw roleError
+  } catch (error) {
+    // Roll back the auth user so a half-created employee never lingers
+    console.error(`Rolling back ${employee.email}:`, error)
+    await supabaseAdmin.auth.admin.deleteUser(userId)
+    throw error
+  }
+
+  console.log(`✓ Created ${employee.email} with role ${employee.role}`)
+
+  return userId
+}
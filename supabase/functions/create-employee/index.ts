@@ -0,0 +1,39 @@
+import { assertPermission, corsHeaders, createAdminClient, errorResponse, jsonResponse, requirePermission } from '../_shared/admin.ts'
+import { createEmployee, NewEmployee, normalizeNewEmployee } from '../_shared/employees.ts'
+
+interface CreateEmployeeRequest extends NewEmployee {
+  redirect_to?: string
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const caller = await requirePermission(req, supabaseAdmin, 'employee.edit')
+
+    const payload: CreateEmployeeRequest = await req.json()
+    const employee = normalizeNewEmployee(payload)
+
+    if (employee.role !== 'employee') {
+      await assertPermission(supabaseAdmin, caller.id, 'role.assign')
+    }
+
+    const userId = await createEmployee(supabaseAdmin, employee, payload.redirect_to)
+
+    await supabaseAdmin.rpc('log_activity', {
+      p_user_id: caller.id,
+      p_action: 'created',
+      p_entity_type: 'employee',
+      p_entity_id: userId,
+      p_description: `Added ${employee.full_name} as ${employee.role} and sent an invitation to ${employee.email}`
+    })
+
+    return jsonResponse({ id: userId, email: employee.email, role: employee.role })
+  } catch (error) {
+    console.error('Create employee error:', error)
+    return errorResponse(error)
+  }
+})
@@ -0,0 +1,72 @@
+import { assertPermission, corsHeaders, createAdminClient, errorResponse, HttpError, jsonResponse, requirePermission } from '../_shared/admin.ts'
+import { createEmployee, NewEmployee, normalizeNewEmployee } from '../_shared/employees.ts'
+
+interface ImportEmployeesRequest {
+  rows: Array<NewEmployee & { row: number }>
+  redirect_to?: string
+}
+
+interface ImportResult {
+  row: number
+  email: string
+  id?: string
+  error?: string
+}
+
+const MAX_ROWS = 200
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const caller = await requirePermission(req, supabaseAdmin, 'employee.edit')
+
+    const payload: ImportEmployeesRequest = await req.json()
+    const rows = payload.rows || []
+
+    if (rows.length === 0) {
+      throw new HttpError(400, 'No rows to import')
+    }
+    if (rows.length > MAX_ROWS) {
+      throw new HttpError(400, `At most ${MAX_ROWS} employees can be imported at once`)
+    }
+    if (rows.some(r => r.role && r.role !== 'employee')) {
+      await assertPermission(supabaseAdmin, caller.id, 'role.assign')
+    }
+
+    console.log(`Importing ${rows.length} employees...`)
+
+    // Rows are independent: one failure is reported without stopping the batch
+    const results: ImportResult[] = []
+    for (const row of rows) {
+      try {
+        const employee = normalizeNewEmployee(row)
+        const id = await createEmployee(supabaseAdmin, employee, payload.redirect_to)
+        results.push({ row: row.row, email: employee.email, id })
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred'
+        results.push({ row: row.row, email: row.email, error: errorMessage })
+      }
+    }
+
+    const created = results.filter(r => r.id).length
+
+    await supabaseAdmin.rpc('log_activity', {
+      p_user_id: caller.id,
+      p_action: 'imported',
+      p_entity_type: 'employee',
+      p_entity_id: null,
+      p_description: `Imported ${created} of ${rows.length} employees from CSV`
+    })
+
+    console.log(`✓ Imported ${created} of ${rows.length} employees`)
+
+    return jsonResponse({ created, failed: rows.length - created, results })
+  } catch (error) {
+    console.error('Import employees error:', error)
+    return errorResponse(error)
+  }
+})
@@ -0,0 +1,113 @@
+import {
+  assertPermission,
+  corsHeaders,
+  createAdminClient,
+  errorResponse,
+  HttpError,
+  jsonResponse,
+  requirePermission
+} from '../_shared/admin.ts'
+
+interface OffboardEmployeeRequest {
+  employee_id: string
+  terminated_at: string
+  reason: string
+}
+
+// Long enough to be permanent; the profile and its history are kept
+const BAN_DURATION = '876000h'
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseAdmin = createAdminClient()
+    const caller = await requirePermission(req, supabaseAdmin, 'employee.edit')
+
+    const payload: OffboardEmployeeRequest = await req.json()
+    const reason = payload.reason?.trim()
+
+    if (!payload.employee_id) {
+      throw new HttpError(400, 'Employee is required')
+    }
+    if (payload.employee_id === caller.id) {
+      throw new HttpError(400, 'You cannot offboard yourself')
+    }
+    if (!payload.terminated_at || Number.isNaN(Date.parse(payload.terminated_at))) {
+      throw new HttpError(400, 'A valid termination date is required')
+    }
+    if (payload.terminated_at > new Date().toISOString().split('T')[0]) {
+      throw new HttpError(400, 'Termination date cannot be in the future')
+    }
+    if (!reason) {
+      throw new HttpError(400, 'A termination reason is required')
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('terminated_at, user_roles(role)')
+      .eq('id', payload.employee_id)
+      .maybeSingle()
+
+    if (profileError) throw profileError
+    if (!profile) {
+      throw new HttpError(404, 'Employee not found')
+    }
+    // Checked before the ban so a repeat call never touches a former employee's login
+    if (profile.terminated_at) {
+      throw new HttpError(400, 'Employee has already been offboarded')
+    }
+    // Removing an admin is a role change, so it needs the same permission
+    if (profile.user_roles?.some((entry: { role: string }) => entry.role === 'admin')) {
+      await assertPermission(supabaseAdmin, caller.id, 'role.assign')
+    }
+
+    const { data: { user: target }, error: userError } = await supabaseAdmin.auth.admin.getUserById(payload.employee_id)
+    if (userError || !target) {
+      throw new HttpError(404, 'Employee login not found')
+    }
+    const wasBanned = !!target.banned_until && new Date(target.banned_until) > new Date()
+
+    console.log(`Offboarding employee: ${payload.employee_id}`)
+
+    const { error: banError } = await supabaseAdmin.auth.admin.updateUserById(payload.employee_id, {
+      ban_duration: BAN_DURATION
+    })
+
+    if (banError) {
+      console.error(`Error deactivating login for ${payload.employee_id}:`, banError)
+      throw new HttpError(400, banError.message)
+    }
+
+    const { error: offboardError } = await supabaseAdmin.rpc('offboard_employee', {
+      _employee_id: payload.employee_id,
+      _terminated_at: payload.terminated_at,
+      _reason: reason,
+      _offboarded_by: caller.id
+    })
+
+    if (offboardError) {
+      // Restore access so the employee is not locked out without a recorded termination,
+      // unless the ban predates this call or a concurrent call did offboard them
+      const { data: current } = await supabaseAdmin
+        .from('profiles')
+        .select('terminated_at')
+        .eq('id', payload.employee_id)
+        .maybeSingle()
+
+      if (!wasBanned && !current?.terminated_at) {
+        await supabaseAdmin.auth.admin.updateUserById(payload.employee_id, { ban_duration: 'none' })
+      }
+      throw new HttpError(400, offboardError.message)
+    }
+
+    console.log(`✓ Offboarded ${payload.employee_id}`)
+
+    return jsonResponse({ id: payload.employee_id, terminated_at: payload.terminated_at })
+  } catch (error) {
+    console.error('Offboard employee error:', error)
+    return errorResponse(error)
+  }
+})
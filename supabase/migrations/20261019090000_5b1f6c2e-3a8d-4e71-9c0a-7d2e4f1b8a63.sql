@@ -0,0 +1,8 @@
+-- Worked time per attendance row, derived from check-in/check-out
+ALTER TABLE public.attendance
+  ADD CONSTRAINT attendance_check_out_after_check_in
+  CHECK (check_out IS NULL OR check_out >= check_in);
+
+ALTER TABLE public.attendance
+  ADD COLUMN worked_minutes INTEGER
+  GENERATED ALWAYS AS ((EXTRACT(EPOCH FROM (check_out - check_in)) / 60)::INTEGER) STORED;
@@ -0,0 +1,129 @@
+-- Default yearly allowance per leave type
+CREATE TABLE public.leave_policies (
+  leave_type public.leave_type PRIMARY KEY,
+  default_days NUMERIC(5,1) NOT NULL CHECK (default_days >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.leave_policies ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.leave_policies (leave_type, default_days) VALUES
+  ('vacation', 20),
+  ('sick', 10),
+  ('personal', 5),
+  ('other', 0);
+
+-- Per-employee, per-year overrides of the default allowance
+CREATE TABLE public.leave_entitlements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leave_type public.leave_type NOT NULL,
+  year INTEGER NOT NULL,
+  days_allowed NUMERIC(5,1) NOT NULL CHECK (days_allowed >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(employee_id, leave_type, year)
+);
+
+ALTER TABLE public.leave_entitlements ENABLE ROW LEVEL SECURITY;
+
+-- Leaves submitted beyond the remaining balance await an admin override
+ALTER TABLE public.leaves
+  ADD COLUMN exceeds_balance BOOLEAN NOT NULL DEFAULT false;
+
+-- RLS Policies for leave_policies
+CREATE POLICY "Users can view leave policies"
+  ON public.leave_policies FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage leave policies"
+  ON public.leave_policies FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for leave_entitlements
+CREATE POLICY "Employees can view their own entitlements"
+  ON public.leave_entitlements FOR SELECT
+  USING (auth.uid() = employee_id);
+
+CREATE POLICY "Admins can manage all entitlements"
+  ON public.leave_entitlements FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_leave_policies_updated_at
+  BEFORE UPDATE ON public.leave_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_leave_entitlements_updated_at
+  BEFORE UPDATE ON public.leave_entitlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Balance per leave type for a calendar year; remaining already excludes pending requests
+CREATE OR REPLACE FUNCTION public.get_leave_balances(_employee_id UUID, _year INTEGER)
+RETURNS TABLE (
+  leave_type public.leave_type,
+  entitled NUMERIC,
+  used NUMERIC,
+  pending NUMERIC,
+  remaining NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.leave_type,
+    COALESCE(e.days_allowed, p.default_days) AS entitled,
+    COALESCE(SUM(l.days_count) FILTER (WHERE l.status = 'approved'), 0) AS used,
+    COALESCE(SUM(l.days_count) FILTER (WHERE l.status = 'pending'), 0) AS pending,
+    COALESCE(e.days_allowed, p.default_days)
+      - COALESCE(SUM(l.days_count) FILTER (WHERE l.status IN ('approved', 'pending')), 0) AS remaining
+  FROM public.leave_policies p
+  LEFT JOIN public.leave_entitlements e
+    ON e.leave_type = p.leave_type AND e.employee_id = _employee_id AND e.year = _year
+  LEFT JOIN public.leaves l
+    ON l.leave_type = p.leave_type AND l.employee_id = _employee_id
+    AND EXTRACT(YEAR FROM l.start_date) = _year
+  WHERE _employee_id = auth.uid() OR public.has_role(auth.uid(), 'admin')
+  GROUP BY p.leave_type, e.days_allowed, p.default_days
+  ORDER BY p.leave_type
+$$;
+
+-- Reject requests beyond the balance unless the employee asked for an admin override
+CREATE OR REPLACE FUNCTION public.check_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _remaining NUMERIC;
+BEGIN
+  SELECT b.remaining INTO _remaining
+  FROM public.get_leave_balances(NEW.employee_id, EXTRACT(YEAR FROM NEW.start_date)::INTEGER) b
+  WHERE b.leave_type = NEW.leave_type;
+
+  -- No row means a service-role insert (e.g. seeding); those are trusted
+  IF _remaining IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.days_count > _remaining THEN
+    IF NOT NEW.exceeds_balance THEN
+      RAISE EXCEPTION 'Insufficient % leave balance: % day(s) remaining', NEW.leave_type, _remaining;
+    END IF;
+  ELSE
+    NEW.exceeds_balance := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_leave_balance_before_insert
+  BEFORE INSERT ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_leave_balance();
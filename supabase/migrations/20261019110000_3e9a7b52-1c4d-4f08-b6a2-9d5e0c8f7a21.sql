@@ -0,0 +1,87 @@
+-- Company-wide working week; weekend_days uses EXTRACT(DOW) numbering (0 = Sunday)
+CREATE TABLE public.work_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  weekend_days INTEGER[] NOT NULL DEFAULT '{0,6}',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.work_settings ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.work_settings (id) VALUES (true);
+
+-- Company holiday calendar
+CREATE TABLE public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for work_settings
+CREATE POLICY "Users can view work settings"
+  ON public.work_settings FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can update work settings"
+  ON public.work_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for holidays
+CREATE POLICY "Users can view holidays"
+  ON public.holidays FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage holidays"
+  ON public.holidays FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_work_settings_updated_at
+  BEFORE UPDATE ON public.work_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Number of working days between two dates, inclusive
+CREATE OR REPLACE FUNCTION public.count_working_days(_start_date DATE, _end_date DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(_start_date, _end_date, INTERVAL '1 day') AS d(day)
+  WHERE EXTRACT(DOW FROM d.day)::INTEGER <> ALL (
+      SELECT unnest(weekend_days) FROM public.work_settings LIMIT 1
+    )
+    AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day::DATE)
+$$;
+
+-- days_count is always derived server-side from the working calendar
+CREATE OR REPLACE FUNCTION public.calculate_leave_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.end_date < NEW.start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  NEW.days_count := public.count_working_days(NEW.start_date, NEW.end_date);
+
+  IF NEW.days_count = 0 THEN
+    RAISE EXCEPTION 'The selected dates contain no working days';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named so it fires before check_leave_balance_before_insert
+CREATE TRIGGER calculate_leave_days_before_write
+  BEFORE INSERT OR UPDATE OF start_date, end_date ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_leave_days();
@@ -0,0 +1,66 @@
+-- Partial-day leave: half days (AM/PM) and hour-based requests
+CREATE TYPE public.leave_duration AS ENUM ('full_day', 'half_day', 'hours');
+
+ALTER TABLE public.leaves
+  ALTER COLUMN days_count TYPE NUMERIC(5,2);
+
+ALTER TABLE public.leaves
+  ADD COLUMN duration_type public.leave_duration NOT NULL DEFAULT 'full_day',
+  ADD COLUMN half_day_period TEXT CHECK (half_day_period IN ('am', 'pm')),
+  ADD COLUMN hours NUMERIC(4,2) CHECK (hours > 0);
+
+ALTER TABLE public.leaves
+  ADD CONSTRAINT leaves_partial_day_fields CHECK (
+    (duration_type = 'full_day' AND half_day_period IS NULL AND hours IS NULL)
+    OR (duration_type = 'half_day' AND half_day_period IS NOT NULL AND hours IS NULL AND start_date = end_date)
+    OR (duration_type = 'hours' AND hours IS NOT NULL AND half_day_period IS NULL AND start_date = end_date)
+  );
+
+-- Length of a working day, used to convert hourly leave into days
+ALTER TABLE public.work_settings
+  ADD COLUMN hours_per_day NUMERIC(4,2) NOT NULL DEFAULT 8 CHECK (hours_per_day > 0);
+
+CREATE OR REPLACE FUNCTION public.calculate_leave_days()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _working_days INTEGER;
+  _hours_per_day NUMERIC;
+BEGIN
+  IF NEW.end_date < NEW.start_date THEN
+    RAISE EXCEPTION 'End date must be on or after start date';
+  END IF;
+
+  _working_days := public.count_working_days(NEW.start_date, NEW.end_date);
+
+  IF _working_days = 0 THEN
+    RAISE EXCEPTION 'The selected dates contain no working days';
+  END IF;
+
+  IF NEW.duration_type = 'half_day' THEN
+    NEW.days_count := 0.5;
+  ELSIF NEW.duration_type = 'hours' THEN
+    SELECT hours_per_day INTO _hours_per_day FROM public.work_settings LIMIT 1;
+
+    IF NEW.hours > _hours_per_day THEN
+      RAISE EXCEPTION 'Hourly leave cannot exceed % hours; request a full day instead', _hours_per_day;
+    END IF;
+
+    NEW.days_count := ROUND(NEW.hours / _hours_per_day, 2);
+  ELSE
+    NEW.days_count := _working_days;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER calculate_leave_days_before_write ON public.leaves;
+
+CREATE TRIGGER calculate_leave_days_before_write
+  BEFORE INSERT OR UPDATE OF start_date, end_date, duration_type, hours ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_leave_days();
@@ -0,0 +1,75 @@
+-- Reject leave requests that overlap the employee's own pending or approved leave.
+-- Half days only clash with the same period; hourly leave only clashes with full days.
+CREATE OR REPLACE FUNCTION public.check_leave_overlap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _conflict public.leaves%ROWTYPE;
+BEGIN
+  SELECT * INTO _conflict
+  FROM public.leaves l
+  WHERE l.employee_id = NEW.employee_id
+    AND l.id <> NEW.id
+    AND l.status IN ('pending', 'approved')
+    AND l.start_date <= NEW.end_date
+    AND l.end_date >= NEW.start_date
+    AND (
+      l.duration_type = 'full_day'
+      OR NEW.duration_type = 'full_day'
+      OR (l.duration_type = 'half_day' AND NEW.duration_type = 'half_day' AND l.half_day_period = NEW.half_day_period)
+    )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'This request overlaps an existing % leave from % to %',
+      _conflict.status, _conflict.start_date, _conflict.end_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_leave_overlap_before_write
+  BEFORE INSERT OR UPDATE OF start_date, end_date, duration_type, half_day_period ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_leave_overlap();
+
+-- Colleagues from the same department on approved leave during each given request
+CREATE OR REPLACE FUNCTION public.get_leave_coverage(_leave_ids UUID[])
+RETURNS TABLE (
+  leave_id UUID,
+  department TEXT,
+  department_size INTEGER,
+  colleague_id UUID,
+  colleague_name TEXT,
+  start_date DATE,
+  end_date DATE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    p.department,
+    (SELECT COUNT(*) FROM public.profiles dp WHERE dp.department = p.department)::INTEGER,
+    o.employee_id,
+    op.full_name,
+    o.start_date,
+    o.end_date
+  FROM public.leaves l
+  JOIN public.profiles p ON p.id = l.employee_id
+  JOIN public.leaves o
+    ON o.status = 'approved'
+    AND o.employee_id <> l.employee_id
+    AND o.start_date <= l.end_date
+    AND o.end_date >= l.start_date
+  JOIN public.profiles op ON op.id = o.employee_id AND op.department = p.department
+  WHERE l.id = ANY(_leave_ids)
+    AND public.has_role(auth.uid(), 'admin')
+  ORDER BY l.id, o.start_date
+$$;
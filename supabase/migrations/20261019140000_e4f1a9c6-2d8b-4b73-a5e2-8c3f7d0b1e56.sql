@@ -0,0 +1,120 @@
+-- Withdrawn or cancelled leave no longer counts against the balance
+ALTER TYPE public.leave_status ADD VALUE IF NOT EXISTS 'cancelled';
+
+-- Approved leave stays approved until an admin accepts the cancellation request
+ALTER TABLE public.leaves
+  ADD COLUMN cancellation_requested_at TIMESTAMPTZ,
+  ADD COLUMN cancellation_reason TEXT;
+
+-- Employee withdraws one of their own pending requests
+CREATE OR REPLACE FUNCTION public.withdraw_leave(_leave_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+BEGIN
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.employee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF _leave.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be withdrawn';
+  END IF;
+
+  UPDATE public.leaves SET status = 'cancelled' WHERE id = _leave_id;
+
+  PERFORM public.log_activity(
+    auth.uid(), 'withdrew', 'leave', _leave_id,
+    format('Withdrew %s leave request (%s to %s)', _leave.leave_type, _leave.start_date, _leave.end_date)
+  );
+END;
+$$;
+
+-- Employee asks an admin to cancel leave that was already approved
+CREATE OR REPLACE FUNCTION public.request_leave_cancellation(_leave_id UUID, _reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+BEGIN
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.employee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF _leave.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved leave can be cancelled';
+  END IF;
+
+  IF _leave.cancellation_requested_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Cancellation has already been requested';
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel approved leave';
+  END IF;
+
+  UPDATE public.leaves
+  SET cancellation_requested_at = NOW(), cancellation_reason = _reason
+  WHERE id = _leave_id;
+
+  PERFORM public.log_activity(
+    auth.uid(), 'requested cancellation', 'leave', _leave_id,
+    format('Requested cancellation of %s leave (%s to %s)', _leave.leave_type, _leave.start_date, _leave.end_date)
+  );
+END;
+$$;
+
+-- Admin accepts or declines a pending cancellation request
+CREATE OR REPLACE FUNCTION public.review_leave_cancellation(_leave_id UUID, _approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+  _employee_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review cancellation requests';
+  END IF;
+
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.cancellation_requested_at IS NULL OR _leave.status <> 'approved' THEN
+    RAISE EXCEPTION 'No pending cancellation request for this leave';
+  END IF;
+
+  SELECT full_name INTO _employee_name FROM public.profiles WHERE id = _leave.employee_id;
+
+  IF _approve THEN
+    UPDATE public.leaves
+    SET status = 'cancelled', reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE id = _leave_id;
+  ELSE
+    UPDATE public.leaves
+    SET cancellation_requested_at = NULL, cancellation_reason = NULL
+    WHERE id = _leave_id;
+  END IF;
+
+  PERFORM public.log_activity(
+    auth.uid(),
+    CASE WHEN _approve THEN 'cancelled' ELSE 'declined cancellation' END,
+    'leave',
+    _leave_id,
+    format('%s cancellation of %s''s %s leave (%s to %s)',
+      CASE WHEN _approve THEN 'Approved' ELSE 'Declined' END,
+      _employee_name, _leave.leave_type, _leave.start_date, _leave.end_date)
+  );
+END;
+$$;
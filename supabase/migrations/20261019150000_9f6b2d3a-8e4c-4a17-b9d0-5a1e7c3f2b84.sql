@@ -0,0 +1,9 @@
+-- Reviewer's note on an approve/reject decision, shown to the employee
+ALTER TABLE public.leaves
+  ADD COLUMN review_comment TEXT;
+
+-- A rejection must always explain itself; older rejections are left as they are
+ALTER TABLE public.leaves
+  ADD CONSTRAINT leaves_rejection_requires_comment
+  CHECK (status <> 'rejected' OR COALESCE(TRIM(review_comment), '') <> '')
+  NOT VALID;
@@ -0,0 +1,283 @@
+-- Reporting line
+ALTER TABLE public.profiles
+  ADD COLUMN manager_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD CONSTRAINT profiles_manager_not_self CHECK (manager_id <> id);
+
+-- Configurable approval chain: a step applies when the request is longer than min_days
+-- and matches leave_type (NULL = any type)
+CREATE TABLE public.approval_chain_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  step_order INTEGER NOT NULL,
+  approver_kind TEXT NOT NULL CHECK (approver_kind IN ('manager', 'admin')),
+  min_days NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (min_days >= 0),
+  leave_type public.leave_type,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.approval_chain_steps ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.approval_chain_steps (step_order, approver_kind, min_days) VALUES
+  (1, 'manager', 0),
+  (2, 'admin', 5);
+
+-- Per-request approval trail
+CREATE TABLE public.leave_approvals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  leave_id UUID NOT NULL REFERENCES public.leaves(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  approver_kind TEXT NOT NULL CHECK (approver_kind IN ('manager', 'admin')),
+  approver_id UUID REFERENCES public.profiles(id),
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'pending', 'approved', 'rejected', 'skipped')),
+  decided_by UUID REFERENCES public.profiles(id),
+  decided_at TIMESTAMPTZ,
+  comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(leave_id, step_order)
+);
+
+ALTER TABLE public.leave_approvals ENABLE ROW LEVEL SECURITY;
+
+-- Requests already awaiting review go to the admin pool
+INSERT INTO public.leave_approvals (leave_id, step_order, approver_kind, status)
+SELECT id, 1, 'admin', 'pending'
+FROM public.leaves
+WHERE status = 'pending';
+
+-- Security definer helpers so leaves and leave_approvals policies can reference each other
+CREATE OR REPLACE FUNCTION public.is_leave_approver(_leave_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.leave_approvals
+    WHERE leave_id = _leave_id AND approver_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_leave_owner(_leave_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.leaves
+    WHERE id = _leave_id AND employee_id = _user_id
+  )
+$$;
+
+-- RLS Policies for approval_chain_steps
+CREATE POLICY "Users can view approval chain"
+  ON public.approval_chain_steps FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage approval chain"
+  ON public.approval_chain_steps FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for leave_approvals (written only through the functions below)
+CREATE POLICY "Employees can view approvals of their own leaves"
+  ON public.leave_approvals FOR SELECT
+  USING (public.is_leave_owner(leave_id, auth.uid()));
+
+CREATE POLICY "Approvers can view their approval steps"
+  ON public.leave_approvals FOR SELECT
+  USING (auth.uid() = approver_id);
+
+CREATE POLICY "Admins can view all approvals"
+  ON public.leave_approvals FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Managers see the requests routed to them
+CREATE POLICY "Approvers can view leaves routed to them"
+  ON public.leaves FOR SELECT
+  USING (public.is_leave_approver(id, auth.uid()));
+
+-- Build the approval trail for a new pending request
+CREATE OR REPLACE FUNCTION public.build_leave_approvals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step RECORD;
+  _manager_id UUID;
+  _order INTEGER := 0;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT manager_id INTO _manager_id FROM public.profiles WHERE id = NEW.employee_id;
+
+  FOR _step IN
+    SELECT *
+    FROM public.approval_chain_steps
+    WHERE NEW.days_count > min_days
+      AND (leave_type IS NULL OR leave_type = NEW.leave_type)
+    ORDER BY step_order
+  LOOP
+    -- Employees without a manager skip the manager step
+    CONTINUE WHEN _step.approver_kind = 'manager' AND _manager_id IS NULL;
+
+    _order := _order + 1;
+    INSERT INTO public.leave_approvals (leave_id, step_order, approver_kind, approver_id, status)
+    VALUES (
+      NEW.id,
+      _order,
+      _step.approver_kind,
+      CASE WHEN _step.approver_kind = 'manager' THEN _manager_id END,
+      CASE WHEN _order = 1 THEN 'pending' ELSE 'waiting' END
+    );
+  END LOOP;
+
+  -- Every request needs at least one reviewer
+  IF _order = 0 THEN
+    INSERT INTO public.leave_approvals (leave_id, step_order, approver_kind, status)
+    VALUES (NEW.id, 1, 'admin', 'pending');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER build_leave_approvals_after_insert
+  AFTER INSERT ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.build_leave_approvals();
+
+-- Record a decision on the current step and advance or close the request
+CREATE OR REPLACE FUNCTION public.decide_leave_approval(_leave_id UUID, _approve BOOLEAN, _comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+  _step public.leave_approvals%ROWTYPE;
+  _next_step public.leave_approvals%ROWTYPE;
+  _employee_name TEXT;
+  _comment_text TEXT := NULLIF(TRIM(_comment), '');
+BEGIN
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request is not awaiting approval';
+  END IF;
+
+  SELECT * INTO _step
+  FROM public.leave_approvals
+  WHERE leave_id = _leave_id AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request is not awaiting approval';
+  END IF;
+
+  -- Admins may act on any step so a request never gets stuck
+  IF NOT (_step.approver_id = auth.uid() OR public.has_role(auth.uid(), 'admin')) THEN
+    RAISE EXCEPTION 'You are not the approver for this step';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'A comment is required when rejecting a request';
+  END IF;
+
+  UPDATE public.leave_approvals
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = NOW(),
+      comment = _comment_text
+  WHERE id = _step.id;
+
+  SELECT full_name INTO _employee_name FROM public.profiles WHERE id = _leave.employee_id;
+
+  IF NOT _approve THEN
+    UPDATE public.leave_approvals SET status = 'skipped'
+    WHERE leave_id = _leave_id AND status = 'waiting';
+
+    UPDATE public.leaves
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = NOW(), review_comment = _comment_text
+    WHERE id = _leave_id;
+
+    PERFORM public.log_activity(
+      auth.uid(), 'rejected', 'leave', _leave_id,
+      format('Rejected %s''s %s leave: "%s"', _employee_name, _leave.leave_type, _comment_text)
+    );
+    RETURN;
+  END IF;
+
+  SELECT * INTO _next_step
+  FROM public.leave_approvals
+  WHERE leave_id = _leave_id AND status = 'waiting'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE public.leave_approvals SET status = 'pending' WHERE id = _next_step.id;
+
+    PERFORM public.log_activity(
+      auth.uid(), 'approved step', 'leave', _leave_id,
+      format('Approved step %s of %s''s %s leave%s', _step.step_order, _employee_name, _leave.leave_type,
+        CASE WHEN _comment_text IS NULL THEN '' ELSE format(': "%s"', _comment_text) END)
+    );
+  ELSE
+    UPDATE public.leaves
+    SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = NOW(), review_comment = _comment_text
+    WHERE id = _leave_id;
+
+    PERFORM public.log_activity(
+      auth.uid(), 'approved', 'leave', _leave_id,
+      format('Approved %s''s %s leave%s', _employee_name, _leave.leave_type,
+        CASE WHEN _comment_text IS NULL THEN '' ELSE format(': "%s"', _comment_text) END)
+    );
+  END IF;
+END;
+$$;
+
+-- Coverage is also useful to managers reviewing their step
+CREATE OR REPLACE FUNCTION public.get_leave_coverage(_leave_ids UUID[])
+RETURNS TABLE (
+  leave_id UUID,
+  department TEXT,
+  department_size INTEGER,
+  colleague_id UUID,
+  colleague_name TEXT,
+  start_date DATE,
+  end_date DATE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    p.department,
+    (SELECT COUNT(*) FROM public.profiles dp WHERE dp.department = p.department)::INTEGER,
+    o.employee_id,
+    op.full_name,
+    o.start_date,
+    o.end_date
+  FROM public.leaves l
+  JOIN public.profiles p ON p.id = l.employee_id
+  JOIN public.leaves o
+    ON o.status = 'approved'
+    AND o.employee_id <> l.employee_id
+    AND o.start_date <= l.end_date
+    AND o.end_date >= l.start_date
+  JOIN public.profiles op ON op.id = o.employee_id AND op.department = p.department
+  WHERE l.id = ANY(_leave_ids)
+    AND (public.has_role(auth.uid(), 'admin') OR public.is_leave_approver(l.id, auth.uid()))
+  ORDER BY l.id, o.start_date
+$$;
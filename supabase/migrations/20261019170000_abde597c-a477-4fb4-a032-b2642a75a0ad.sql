@@ -0,0 +1,73 @@
+-- Offboarding: former employees keep their profile and history but lose access
+ALTER TABLE public.profiles
+  ADD COLUMN terminated_at DATE,
+  ADD COLUMN termination_reason TEXT,
+  ADD CONSTRAINT profiles_termination_reason_required
+    CHECK (terminated_at IS NULL OR (termination_reason IS NOT NULL AND btrim(termination_reason) <> ''));
+
+CREATE INDEX idx_profiles_terminated_at ON public.profiles(terminated_at);
+
+-- Records the termination and releases everything still waiting on the employee.
+-- Called by the offboard-employee edge function after the login has been banned.
+CREATE OR REPLACE FUNCTION public.offboard_employee(
+  _employee_id UUID,
+  _terminated_at DATE,
+  _reason TEXT,
+  _offboarded_by UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO _profile FROM public.profiles WHERE id = _employee_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF _profile.terminated_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Employee has already been offboarded';
+  END IF;
+
+  UPDATE public.profiles
+  SET terminated_at = _terminated_at,
+      termination_reason = btrim(_reason)
+  WHERE id = _employee_id;
+
+  -- Direct reports move up to the departing employee's own manager
+  UPDATE public.profiles
+  SET manager_id = _profile.manager_id
+  WHERE manager_id = _employee_id;
+
+  -- Approval steps routed to them fall back to the admin pool
+  UPDATE public.leave_approvals
+  SET approver_kind = 'admin',
+      approver_id = NULL
+  WHERE approver_id = _employee_id
+    AND status IN ('waiting', 'pending');
+
+  -- Their own open requests are cancelled
+  UPDATE public.leave_approvals
+  SET status = 'skipped'
+  WHERE status IN ('waiting', 'pending')
+    AND leave_id IN (
+      SELECT id FROM public.leaves WHERE employee_id = _employee_id AND status = 'pending'
+    );
+
+  UPDATE public.leaves
+  SET status = 'cancelled'
+  WHERE employee_id = _employee_id AND status = 'pending';
+
+  PERFORM public.log_activity(
+    _offboarded_by, 'offboarded', 'employee', _employee_id,
+    format('Offboarded %s effective %s: %s', _profile.full_name, _terminated_at, btrim(_reason))
+  );
+END;
+$$;
+
+-- Only the service role (edge function) may offboard
+REVOKE EXECUTE ON FUNCTION public.offboard_employee(UUID, DATE, TEXT, UUID) FROM PUBLIC, anon, authenticated;
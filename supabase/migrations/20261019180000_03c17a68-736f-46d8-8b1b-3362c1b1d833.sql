@@ -0,0 +1,50 @@
+-- Role assignment from the Employees page; each user holds exactly one role
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role public.app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous public.app_role;
+  _full_name TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  SELECT full_name INTO _full_name FROM public.profiles WHERE id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  -- Serialise concurrent role changes so two admins cannot demote each other at once
+  LOCK TABLE public.user_roles IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT role INTO _previous FROM public.user_roles WHERE user_id = _user_id LIMIT 1;
+
+  IF _previous IS NOT DISTINCT FROM _role THEN
+    RETURN;
+  END IF;
+
+  IF _previous = 'admin' AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.id = ur.user_id
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> _user_id
+      AND p.terminated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Cannot demote the last remaining admin';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+
+  PERFORM public.log_activity(
+    auth.uid(), 'role_changed', 'employee', _user_id,
+    format('Changed %s''s role from %s to %s', _full_name, COALESCE(_previous::TEXT, 'none'), _role)
+  );
+END;
+$$;
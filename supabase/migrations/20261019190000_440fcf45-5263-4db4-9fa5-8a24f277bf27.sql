@@ -0,0 +1,6 @@
+-- Additional roles; their capabilities live in role_permissions (next migration,
+-- since new enum values cannot be used in the transaction that adds them)
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'hr';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'manager';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'payroll';
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'auditor';
@@ -0,0 +1,418 @@
+-- Capabilities granted to roles; checks go through has_permission instead of role names
+CREATE TABLE public.permissions (
+  key TEXT PRIMARY KEY,
+  description TEXT NOT NULL
+);
+
+ALTER TABLE public.permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.role_permissions (
+  role public.app_role NOT NULL,
+  permission TEXT NOT NULL REFERENCES public.permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('employee.view', 'View the employee list'),
+  ('employee.edit', 'Add, edit and offboard employees'),
+  ('role.assign', 'Change employee roles'),
+  ('leave.view_all', 'View every leave request'),
+  ('leave.approve', 'Decide leave requests and cancellations'),
+  ('leave.manage', 'Manage entitlements, leave policies and the approval chain'),
+  ('attendance.view_all', 'View the attendance register'),
+  ('attendance.correct', 'Correct attendance records'),
+  ('calendar.manage', 'Manage holidays and the working week');
+
+INSERT INTO public.role_permissions (role, permission)
+SELECT 'admin', key FROM public.permissions;
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('hr', 'employee.view'),
+  ('hr', 'employee.edit'),
+  ('hr', 'leave.view_all'),
+  ('hr', 'leave.approve'),
+  ('hr', 'leave.manage'),
+  ('hr', 'attendance.view_all'),
+  ('hr', 'attendance.correct'),
+  ('hr', 'calendar.manage'),
+  ('manager', 'employee.view'),
+  ('payroll', 'employee.view'),
+  ('payroll', 'leave.view_all'),
+  ('payroll', 'attendance.view_all'),
+  ('auditor', 'employee.view'),
+  ('auditor', 'leave.view_all'),
+  ('auditor', 'attendance.view_all');
+
+-- Security definer function to check a capability
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.role_permissions rp ON rp.role = ur.role
+    WHERE ur.user_id = _user_id AND rp.permission = _permission
+  )
+$$;
+
+-- RLS Policies for permissions
+CREATE POLICY "Users can view permissions"
+  ON public.permissions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can view role permissions"
+  ON public.role_permissions FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage role permissions"
+  ON public.role_permissions FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Move existing admin policies onto permissions
+DROP POLICY "Admins can insert profiles" ON public.profiles;
+DROP POLICY "Admins can update all profiles" ON public.profiles;
+DROP POLICY "Admins can delete profiles" ON public.profiles;
+
+CREATE POLICY "Employee editors can insert profiles"
+  ON public.profiles FOR INSERT
+  WITH CHECK (public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE POLICY "Employee editors can update all profiles"
+  ON public.profiles FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE POLICY "Employee editors can delete profiles"
+  ON public.profiles FOR DELETE
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+DROP POLICY "Admins can view all roles" ON public.user_roles;
+DROP POLICY "Admins can manage roles" ON public.user_roles;
+
+CREATE POLICY "Employee viewers can view all roles"
+  ON public.user_roles FOR SELECT
+  USING (public.has_permission(auth.uid(), 'employee.view'));
+
+CREATE POLICY "Role assigners can manage roles"
+  ON public.user_roles FOR ALL
+  USING (public.has_permission(auth.uid(), 'role.assign'));
+
+DROP POLICY "Admins can view all leaves" ON public.leaves;
+DROP POLICY "Admins can update all leaves" ON public.leaves;
+DROP POLICY "Admins can delete leaves" ON public.leaves;
+
+CREATE POLICY "Leave viewers can view all leaves"
+  ON public.leaves FOR SELECT
+  USING (public.has_permission(auth.uid(), 'leave.view_all'));
+
+CREATE POLICY "Leave approvers can update all leaves"
+  ON public.leaves FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'leave.approve'));
+
+CREATE POLICY "Leave managers can delete leaves"
+  ON public.leaves FOR DELETE
+  USING (public.has_permission(auth.uid(), 'leave.manage'));
+
+DROP POLICY "Admins can view all attendance" ON public.attendance;
+DROP POLICY "Admins can manage all attendance" ON public.attendance;
+
+CREATE POLICY "Attendance viewers can view all attendance"
+  ON public.attendance FOR SELECT
+  USING (public.has_permission(auth.uid(), 'attendance.view_all'));
+
+CREATE POLICY "Attendance correctors can manage all attendance"
+  ON public.attendance FOR ALL
+  USING (public.has_permission(auth.uid(), 'attendance.correct'));
+
+DROP POLICY "Admins can manage leave policies" ON public.leave_policies;
+DROP POLICY "Admins can manage all entitlements" ON public.leave_entitlements;
+
+CREATE POLICY "Leave managers can manage leave policies"
+  ON public.leave_policies FOR ALL
+  USING (public.has_permission(auth.uid(), 'leave.manage'));
+
+CREATE POLICY "Leave managers can manage all entitlements"
+  ON public.leave_entitlements FOR ALL
+  USING (public.has_permission(auth.uid(), 'leave.manage'));
+
+DROP POLICY "Admins can update work settings" ON public.work_settings;
+DROP POLICY "Admins can manage holidays" ON public.holidays;
+
+CREATE POLICY "Calendar managers can update work settings"
+  ON public.work_settings FOR UPDATE
+  USING (public.has_permission(auth.uid(), 'calendar.manage'));
+
+CREATE POLICY "Calendar managers can manage holidays"
+  ON public.holidays FOR ALL
+  USING (public.has_permission(auth.uid(), 'calendar.manage'));
+
+DROP POLICY "Admins can manage approval chain" ON public.approval_chain_steps;
+DROP POLICY "Admins can view all approvals" ON public.leave_approvals;
+
+CREATE POLICY "Leave managers can manage approval chain"
+  ON public.approval_chain_steps FOR ALL
+  USING (public.has_permission(auth.uid(), 'leave.manage'));
+
+CREATE POLICY "Leave viewers can view all approvals"
+  ON public.leave_approvals FOR SELECT
+  USING (public.has_permission(auth.uid(), 'leave.view_all'));
+
+-- Functions that checked for the admin role
+CREATE OR REPLACE FUNCTION public.get_leave_balances(_employee_id UUID, _year INTEGER)
+RETURNS TABLE (
+  leave_type public.leave_type,
+  entitled NUMERIC,
+  used NUMERIC,
+  pending NUMERIC,
+  remaining NUMERIC
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    p.leave_type,
+    COALESCE(e.days_allowed, p.default_days) AS entitled,
+    COALESCE(SUM(l.days_count) FILTER (WHERE l.status = 'approved'), 0) AS used,
+    COALESCE(SUM(l.days_count) FILTER (WHERE l.status = 'pending'), 0) AS pending,
+    COALESCE(e.days_allowed, p.default_days)
+      - COALESCE(SUM(l.days_count) FILTER (WHERE l.status IN ('approved', 'pending')), 0) AS remaining
+  FROM public.leave_policies p
+  LEFT JOIN public.leave_entitlements e
+    ON e.leave_type = p.leave_type AND e.employee_id = _employee_id AND e.year = _year
+  LEFT JOIN public.leaves l
+    ON l.leave_type = p.leave_type AND l.employee_id = _employee_id
+    AND EXTRACT(YEAR FROM l.start_date) = _year
+  WHERE _employee_id = auth.uid()
+    OR public.has_permission(auth.uid(), 'leave.view_all')
+    OR public.has_permission(auth.uid(), 'leave.manage')
+  GROUP BY p.leave_type, e.days_allowed, p.default_days
+  ORDER BY p.leave_type
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_leave_coverage(_leave_ids UUID[])
+RETURNS TABLE (
+  leave_id UUID,
+  department TEXT,
+  department_size INTEGER,
+  colleague_id UUID,
+  colleague_name TEXT,
+  start_date DATE,
+  end_date DATE
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    l.id,
+    p.department,
+    (SELECT COUNT(*) FROM public.profiles dp WHERE dp.department = p.department)::INTEGER,
+    o.employee_id,
+    op.full_name,
+    o.start_date,
+    o.end_date
+  FROM public.leaves l
+  JOIN public.profiles p ON p.id = l.employee_id
+  JOIN public.leaves o
+    ON o.status = 'approved'
+    AND o.employee_id <> l.employee_id
+    AND o.start_date <= l.end_date
+    AND o.end_date >= l.start_date
+  JOIN public.profiles op ON op.id = o.employee_id AND op.department = p.department
+  WHERE l.id = ANY(_leave_ids)
+    AND (public.has_permission(auth.uid(), 'leave.approve') OR public.is_leave_approver(l.id, auth.uid()))
+  ORDER BY l.id, o.start_date
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_leave_cancellation(_leave_id UUID, _approve BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+  _employee_name TEXT;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'leave.approve') THEN
+    RAISE EXCEPTION 'You are not allowed to review cancellation requests';
+  END IF;
+
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.cancellation_requested_at IS NULL OR _leave.status <> 'approved' THEN
+    RAISE EXCEPTION 'No pending cancellation request for this leave';
+  END IF;
+
+  SELECT full_name INTO _employee_name FROM public.profiles WHERE id = _leave.employee_id;
+
+  IF _approve THEN
+    UPDATE public.leaves
+    SET status = 'cancelled', reviewed_by = auth.uid(), reviewed_at = NOW()
+    WHERE id = _leave_id;
+  ELSE
+    UPDATE public.leaves
+    SET cancellation_requested_at = NULL, cancellation_reason = NULL
+    WHERE id = _leave_id;
+  END IF;
+
+  PERFORM public.log_activity(
+    auth.uid(),
+    CASE WHEN _approve THEN 'cancelled' ELSE 'declined cancellation' END,
+    'leave',
+    _leave_id,
+    format('%s cancellation of %s''s %s leave (%s to %s)',
+      CASE WHEN _approve THEN 'Approved' ELSE 'Declined' END,
+      _employee_name, _leave.leave_type, _leave.start_date, _leave.end_date)
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decide_leave_approval(_leave_id UUID, _approve BOOLEAN, _comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+  _step public.leave_approvals%ROWTYPE;
+  _next_step public.leave_approvals%ROWTYPE;
+  _employee_name TEXT;
+  _comment_text TEXT := NULLIF(TRIM(_comment), '');
+BEGIN
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.status <> 'pending' THEN
+    RAISE EXCEPTION 'This request is not awaiting approval';
+  END IF;
+
+  SELECT * INTO _step
+  FROM public.leave_approvals
+  WHERE leave_id = _leave_id AND status = 'pending'
+  ORDER BY step_order
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This request is not awaiting approval';
+  END IF;
+
+  -- Leave approvers may act on any step so a request never gets stuck
+  IF NOT (_step.approver_id = auth.uid() OR public.has_permission(auth.uid(), 'leave.approve')) THEN
+    RAISE EXCEPTION 'You are not the approver for this step';
+  END IF;
+
+  IF NOT _approve AND _comment_text IS NULL THEN
+    RAISE EXCEPTION 'A comment is required when rejecting a request';
+  END IF;
+
+  UPDATE public.leave_approvals
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      decided_by = auth.uid(),
+      decided_at = NOW(),
+      comment = _comment_text
+  WHERE id = _step.id;
+
+  SELECT full_name INTO _employee_name FROM public.profiles WHERE id = _leave.employee_id;
+
+  IF NOT _approve THEN
+    UPDATE public.leave_approvals SET status = 'skipped'
+    WHERE leave_id = _leave_id AND status = 'waiting';
+
+    UPDATE public.leaves
+    SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = NOW(), review_comment = _comment_text
+    WHERE id = _leave_id;
+
+    PERFORM public.log_activity(
+      auth.uid(), 'rejected', 'leave', _leave_id,
+      format('Rejected %s''s %s leave: "%s"', _employee_name, _leave.leave_type, _comment_text)
+    );
+    RETURN;
+  END IF;
+
+  SELECT * INTO _next_step
+  FROM public.leave_approvals
+  WHERE leave_id = _leave_id AND status = 'waiting'
+  ORDER BY step_order
+  LIMIT 1;
+
+  IF FOUND THEN
+    UPDATE public.leave_approvals SET status = 'pending' WHERE id = _next_step.id;
+
+    PERFORM public.log_activity(
+      auth.uid(), 'approved step', 'leave', _leave_id,
+      format('Approved step %s of %s''s %s leave%s', _step.step_order, _employee_name, _leave.leave_type,
+        CASE WHEN _comment_text IS NULL THEN '' ELSE format(': "%s"', _comment_text) END)
+    );
+  ELSE
+    UPDATE public.leaves
+    SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = NOW(), review_comment = _comment_text
+    WHERE id = _leave_id;
+
+    PERFORM public.log_activity(
+      auth.uid(), 'approved', 'leave', _leave_id,
+      format('Approved %s''s %s leave%s', _employee_name, _leave.leave_type,
+        CASE WHEN _comment_text IS NULL THEN '' ELSE format(': "%s"', _comment_text) END)
+    );
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_role(_user_id UUID, _role public.app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous public.app_role;
+  _full_name TEXT;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'role.assign') THEN
+    RAISE EXCEPTION 'You are not allowed to change roles';
+  END IF;
+
+  SELECT full_name INTO _full_name FROM public.profiles WHERE id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  -- Serialise concurrent role changes so two admins cannot demote each other at once
+  LOCK TABLE public.user_roles IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT role INTO _previous FROM public.user_roles WHERE user_id = _user_id LIMIT 1;
+
+  IF _previous IS NOT DISTINCT FROM _role THEN
+    RETURN;
+  END IF;
+
+  IF _previous = 'admin' AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.id = ur.user_id
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> _user_id
+      AND p.terminated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Cannot demote the last remaining admin';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = _user_id;
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, _role);
+
+  PERFORM public.log_activity(
+    auth.uid(), 'role_changed', 'employee', _user_id,
+    format('Changed %s''s role from %s to %s', _full_name, COALESCE(_previous::TEXT, 'none'), _role)
+  );
+END;
+$$;
@@ -0,0 +1,8 @@
+-- Company-wide attendance summaries for payroll
+INSERT INTO public.permissions (key, description) VALUES
+  ('attendance.export', 'Export company-wide attendance for a pay period');
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'attendance.export'),
+  ('hr', 'attendance.export'),
+  ('payroll', 'attendance.export');
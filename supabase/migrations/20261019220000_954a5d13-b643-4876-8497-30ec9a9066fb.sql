@@ -0,0 +1,162 @@
+-- Departments as records instead of free text
+CREATE TABLE public.departments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  head_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_departments_name ON public.departments (lower(name));
+
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_departments_updated_at
+  BEFORE UPDATE ON public.departments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.permissions (key, description) VALUES
+  ('department.manage', 'Manage departments and their heads');
+
+INSERT INTO public.role_permissions (role, permission) VALUES
+  ('admin', 'department.manage'),
+  ('hr', 'department.manage');
+
+-- RLS Policies for departments
+CREATE POLICY "Users can view departments"
+  ON public.departments FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Department managers can manage departments"
+  ON public.departments FOR ALL
+  USING (public.has_permission(auth.uid(), 'department.manage'));
+
+-- Existing strings collapse case-insensitively; the most common spelling wins
+INSERT INTO public.departments (name)
+SELECT DISTINCT ON (lower(btrim(department))) btrim(department)
+FROM public.profiles
+WHERE department IS NOT NULL AND btrim(department) <> ''
+GROUP BY btrim(department)
+ORDER BY lower(btrim(department)), COUNT(*) DESC, btrim(department);
+
+ALTER TABLE public.profiles
+  ADD COLUMN department_id UUID REFERENCES public.departments(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_profiles_department_id ON public.profiles(department_id);
+
+UPDATE public.profiles p
+SET department_id = d.id,
+    department = d.name
+FROM public.departments d
+WHERE lower(d.name) = lower(btrim(p.department));
+
+-- profiles.department stays as a read-only copy of the department name so existing
+-- filters keep working; writes may set either department_id or a department name
+CREATE OR REPLACE FUNCTION public.sync_profile_department()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _requested TEXT := btrim(NEW.department);
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.department_id IS NULL AND NEW.department IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.department_id IS DISTINCT FROM OLD.department_id THEN
+    IF NEW.department_id IS NOT NULL THEN
+      SELECT name INTO NEW.department FROM public.departments WHERE id = NEW.department_id;
+      RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE' THEN
+      NEW.department := NULL;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.department IS DISTINCT FROM OLD.department THEN
+    IF _requested IS NULL OR _requested = '' THEN
+      NEW.department_id := NULL;
+      NEW.department := NULL;
+    ELSE
+      SELECT id, name INTO NEW.department_id, NEW.department
+      FROM public.departments
+      WHERE lower(name) = lower(_requested);
+
+      IF NEW.department_id IS NULL THEN
+        RAISE EXCEPTION 'Unknown department: %', _requested;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_department_before_write
+  BEFORE INSERT OR UPDATE OF department, department_id ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_profile_department();
+
+CREATE OR REPLACE FUNCTION public.propagate_department_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profiles SET department = NEW.name WHERE department_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER propagate_department_name_after_update
+  AFTER UPDATE OF name ON public.departments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.propagate_department_name();
+
+-- Moves everyone from one department into another and removes the source
+CREATE OR REPLACE FUNCTION public.merge_departments(_source_id UUID, _target_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _source public.departments%ROWTYPE;
+  _target public.departments%ROWTYPE;
+  _moved INTEGER;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'department.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to manage departments';
+  END IF;
+
+  IF _source_id = _target_id THEN
+    RAISE EXCEPTION 'Choose a different department to merge into';
+  END IF;
+
+  SELECT * INTO _source FROM public.departments WHERE id = _source_id FOR UPDATE;
+  SELECT * INTO _target FROM public.departments WHERE id = _target_id FOR UPDATE;
+
+  IF _source.id IS NULL OR _target.id IS NULL THEN
+    RAISE EXCEPTION 'Department not found';
+  END IF;
+
+  UPDATE public.profiles SET department_id = _target_id WHERE department_id = _source_id;
+  GET DIAGNOSTICS _moved = ROW_COUNT;
+
+  UPDATE public.departments
+  SET head_id = COALESCE(_target.head_id, _source.head_id)
+  WHERE id = _target_id;
+
+  DELETE FROM public.departments WHERE id = _source_id;
+
+  PERFORM public.log_activity(
+    auth.uid(), 'merged', 'department', _target_id,
+    format('Merged %s into %s (%s employees moved)', _source.name, _target.name, _moved)
+  );
+END;
+$$;
@@ -0,0 +1,97 @@
+-- Employee documents: files live in a private bucket under <employee_id>/,
+-- with one metadata row per file
+CREATE TABLE public.employee_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  storage_path TEXT NOT NULL UNIQUE,
+  content_type TEXT,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  uploaded_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT employee_documents_path_in_folder CHECK (storage_path LIKE employee_id::TEXT || '/%')
+);
+
+CREATE INDEX idx_employee_documents_employee ON public.employee_documents(employee_id, created_at DESC);
+
+ALTER TABLE public.employee_documents ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for employee_documents
+CREATE POLICY "Users can view their own documents"
+  ON public.employee_documents FOR SELECT
+  USING (auth.uid() = employee_id);
+
+CREATE POLICY "Employee editors can view all documents"
+  ON public.employee_documents FOR SELECT
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE POLICY "Employee editors can add documents"
+  ON public.employee_documents FOR INSERT
+  WITH CHECK (public.has_permission(auth.uid(), 'employee.edit') AND uploaded_by = auth.uid());
+
+CREATE POLICY "Employee editors can delete documents"
+  ON public.employee_documents FOR DELETE
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('employee-documents', 'employee-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their own document files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'employee-documents' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+CREATE POLICY "Employee editors can read document files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'employee-documents' AND public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE POLICY "Employee editors can upload document files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'employee-documents' AND public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE POLICY "Employee editors can delete document files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'employee-documents' AND public.has_permission(auth.uid(), 'employee.edit'));
+
+-- Uploads and removals show up in the employee's activity history
+CREATE OR REPLACE FUNCTION public.log_employee_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _document public.employee_documents;
+  _full_name TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    _document := NEW;
+  ELSE
+    _document := OLD;
+  END IF;
+
+  SELECT full_name INTO _full_name FROM public.profiles WHERE id = _document.employee_id;
+
+  PERFORM public.log_activity(
+    auth.uid(),
+    CASE WHEN TG_OP = 'INSERT' THEN 'document_added' ELSE 'document_removed' END,
+    'employee',
+    _document.employee_id,
+    format(
+      CASE WHEN TG_OP = 'INSERT' THEN 'Added document "%s" for %s' ELSE 'Removed document "%s" for %s' END,
+      _document.name, _full_name
+    )
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_employee_document_changes
+  AFTER INSERT OR DELETE ON public.employee_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_employee_document();
@@ -0,0 +1,195 @@
+-- HR-controlled profile fields can only change through employee editors;
+-- everyone else proposes edits as change requests
+CREATE OR REPLACE FUNCTION public.protect_profile_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Service role (edge functions) and employee editors may change anything
+  IF auth.uid() IS NULL OR public.has_permission(auth.uid(), 'employee.edit') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.department IS DISTINCT FROM OLD.department
+    OR NEW.department_id IS DISTINCT FROM OLD.department_id
+    OR NEW.position IS DISTINCT FROM OLD.position
+    OR NEW.hire_date IS DISTINCT FROM OLD.hire_date
+    OR NEW.manager_id IS DISTINCT FROM OLD.manager_id
+    OR NEW.terminated_at IS DISTINCT FROM OLD.terminated_at
+    OR NEW.termination_reason IS DISTINCT FROM OLD.termination_reason
+  THEN
+    RAISE EXCEPTION 'These profile fields are managed by HR; submit a change request instead';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_fields
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_profile_fields();
+
+CREATE TABLE public.profile_change_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  field TEXT NOT NULL CHECK (field IN ('department', 'position', 'hire_date')),
+  current_value TEXT,
+  requested_value TEXT,
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_comment TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open request per field keeps the queue unambiguous
+CREATE UNIQUE INDEX idx_profile_change_requests_pending
+  ON public.profile_change_requests(employee_id, field)
+  WHERE status = 'pending';
+
+ALTER TABLE public.profile_change_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_profile_change_requests_updated_at
+  BEFORE UPDATE ON public.profile_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for profile_change_requests
+CREATE POLICY "Users can view their own change requests"
+  ON public.profile_change_requests FOR SELECT
+  USING (auth.uid() = employee_id);
+
+CREATE POLICY "Employee editors can view all change requests"
+  ON public.profile_change_requests FOR SELECT
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE POLICY "Users can request changes to their own profile"
+  ON public.profile_change_requests FOR INSERT
+  WITH CHECK (auth.uid() = employee_id AND status = 'pending');
+
+CREATE POLICY "Users can withdraw their own pending change requests"
+  ON public.profile_change_requests FOR DELETE
+  USING (auth.uid() = employee_id AND status = 'pending');
+
+-- Records the value as it stands now and rejects no-op or invalid requests
+CREATE OR REPLACE FUNCTION public.prepare_profile_change_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO _profile FROM public.profiles WHERE id = NEW.employee_id;
+
+  NEW.requested_value := NULLIF(btrim(NEW.requested_value), '');
+  NEW.current_value := CASE NEW.field
+    WHEN 'department' THEN _profile.department
+    WHEN 'position' THEN _profile.position
+    WHEN 'hire_date' THEN _profile.hire_date::TEXT
+  END;
+
+  IF NEW.field = 'department' AND NEW.requested_value IS NOT NULL THEN
+    SELECT name INTO NEW.requested_value
+    FROM public.departments
+    WHERE lower(name) = lower(NEW.requested_value);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown department';
+    END IF;
+  END IF;
+
+  IF NEW.field = 'hire_date' THEN
+    IF NEW.requested_value IS NULL THEN
+      RAISE EXCEPTION 'Please provide a hire date';
+    END IF;
+    NEW.requested_value := NEW.requested_value::DATE::TEXT;
+  END IF;
+
+  IF NEW.requested_value IS NOT DISTINCT FROM NEW.current_value THEN
+    RAISE EXCEPTION 'The requested value matches the current one';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_profile_change_request
+  BEFORE INSERT ON public.profile_change_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_profile_change_request();
+
+-- Approving applies the change to the profile; both outcomes are logged with
+-- the before and after values
+CREATE OR REPLACE FUNCTION public.review_profile_change_request(_request_id UUID, _approve BOOLEAN, _comment TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.profile_change_requests%ROWTYPE;
+  _profile public.profiles%ROWTYPE;
+  _before TEXT;
+  _field_label TEXT;
+BEGIN
+  IF NOT public.has_permission(auth.uid(), 'employee.edit') THEN
+    RAISE EXCEPTION 'You are not allowed to review profile change requests';
+  END IF;
+
+  SELECT * INTO _request FROM public.profile_change_requests WHERE id = _request_id FOR UPDATE;
+
+  IF NOT FOUND OR _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'This change request is no longer pending';
+  END IF;
+
+  IF _request.employee_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own change request';
+  END IF;
+
+  SELECT * INTO _profile FROM public.profiles WHERE id = _request.employee_id FOR UPDATE;
+
+  _field_label := replace(_request.field, '_', ' ');
+  _before := CASE _request.field
+    WHEN 'department' THEN _profile.department
+    WHEN 'position' THEN _profile.position
+    WHEN 'hire_date' THEN _profile.hire_date::TEXT
+  END;
+
+  IF _approve THEN
+    IF _request.field = 'department' THEN
+      UPDATE public.profiles SET department = _request.requested_value WHERE id = _request.employee_id;
+    ELSIF _request.field = 'position' THEN
+      UPDATE public.profiles SET position = _request.requested_value WHERE id = _request.employee_id;
+    ELSIF _request.field = 'hire_date' THEN
+      UPDATE public.profiles SET hire_date = _request.requested_value::DATE WHERE id = _request.employee_id;
+    END IF;
+  END IF;
+
+  UPDATE public.profile_change_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      current_value = _before,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW(),
+      review_comment = NULLIF(btrim(_comment), '')
+  WHERE id = _request_id;
+
+  PERFORM public.log_activity(
+    auth.uid(),
+    CASE WHEN _approve THEN 'profile_change_approved' ELSE 'profile_change_rejected' END,
+    'employee',
+    _request.employee_id,
+    format('%s %s''s %s change from "%s" to "%s"',
+      CASE WHEN _approve THEN 'Applied' ELSE 'Rejected' END,
+      _profile.full_name, _field_label,
+      COALESCE(_before, 'none'), COALESCE(_request.requested_value, 'none'))
+  );
+END;
+$$;
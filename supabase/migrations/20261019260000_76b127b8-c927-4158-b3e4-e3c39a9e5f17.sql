@@ -0,0 +1,86 @@
+-- Personal details live outside profiles, which every signed-in user can read.
+-- Only the employee and employee editors see the full record; everyone else
+-- gets the fields the employee chose to share through employee_public_details.
+CREATE TABLE public.employee_personal_details (
+  employee_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pronouns TEXT,
+  date_of_birth DATE CHECK (date_of_birth < CURRENT_DATE),
+  address_line1 TEXT,
+  address_line2 TEXT,
+  city TEXT,
+  region TEXT,
+  postal_code TEXT,
+  country TEXT,
+  -- Which fields colleagues may see: 'pronouns', 'birthday' (day and month only), 'location' (city and country)
+  public_fields TEXT[] NOT NULL DEFAULT ARRAY['pronouns']
+    CHECK (public_fields <@ ARRAY['pronouns', 'birthday', 'location']),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.employee_personal_details ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_employee_personal_details_updated_at
+  BEFORE UPDATE ON public.employee_personal_details
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for employee_personal_details
+CREATE POLICY "Users can manage their own personal details"
+  ON public.employee_personal_details FOR ALL
+  USING (auth.uid() = employee_id)
+  WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Employee editors can manage all personal details"
+  ON public.employee_personal_details FOR ALL
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+CREATE TABLE public.emergency_contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  employee_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  relationship TEXT NOT NULL CHECK (btrim(relationship) <> ''),
+  phone TEXT NOT NULL CHECK (btrim(phone) <> ''),
+  email TEXT,
+  is_primary BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_emergency_contacts_employee ON public.emergency_contacts(employee_id);
+
+CREATE UNIQUE INDEX idx_emergency_contacts_primary
+  ON public.emergency_contacts(employee_id)
+  WHERE is_primary;
+
+ALTER TABLE public.emergency_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_emergency_contacts_updated_at
+  BEFORE UPDATE ON public.emergency_contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for emergency_contacts
+CREATE POLICY "Users can manage their own emergency contacts"
+  ON public.emergency_contacts FOR ALL
+  USING (auth.uid() = employee_id)
+  WITH CHECK (auth.uid() = employee_id);
+
+CREATE POLICY "Employee editors can manage all emergency contacts"
+  ON public.emergency_contacts FOR ALL
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+-- Shared fields only; runs with the owner's rights so it is readable by
+-- colleagues who cannot select the underlying table
+CREATE VIEW public.employee_public_details AS
+SELECT
+  employee_id,
+  CASE WHEN 'pronouns' = ANY(public_fields) THEN pronouns END AS pronouns,
+  CASE WHEN 'birthday' = ANY(public_fields) THEN to_char(date_of_birth, 'MM-DD') END AS birthday,
+  CASE WHEN 'location' = ANY(public_fields) THEN city END AS city,
+  CASE WHEN 'location' = ANY(public_fields) THEN country END AS country
+FROM public.employee_personal_details
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public.employee_public_details FROM anon;
+GRANT SELECT ON public.employee_public_details TO authenticated;
@@ -0,0 +1,31 @@
+-- Full profile rows (email, phone, termination reason) are limited to the
+-- employee themself and employee viewers; everyone else reads the directory
+DROP POLICY "Users can view all profiles" ON public.profiles;
+
+CREATE POLICY "Users can view their own profile"
+  ON public.profiles FOR SELECT
+  USING (auth.uid() = id);
+
+CREATE POLICY "Employee viewers can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (public.has_permission(auth.uid(), 'employee.view'));
+
+-- Non-sensitive columns only; runs with the owner's rights so colleagues can
+-- see names, teams and reporting lines without reading profiles directly.
+-- Leavers stay listed so historical leaves and activity keep their names.
+CREATE VIEW public.employee_directory AS
+SELECT
+  id,
+  full_name,
+  department,
+  department_id,
+  position,
+  manager_id,
+  avatar_url,
+  hire_date,
+  terminated_at
+FROM public.profiles
+WHERE auth.uid() IS NOT NULL;
+
+REVOKE ALL ON public.employee_directory FROM anon;
+GRANT SELECT ON public.employee_directory TO authenticated;
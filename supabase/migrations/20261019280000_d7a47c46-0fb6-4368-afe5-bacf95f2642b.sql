@@ -0,0 +1,82 @@
+-- Server-side search for the Employees and Leaves tables. The 'simple'
+-- configuration skips stemming so names and emails match as typed.
+ALTER TABLE public.profiles
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    to_tsvector('simple',
+      coalesce(full_name, '') || ' ' ||
+      coalesce(email, '') || ' ' ||
+      coalesce(department, '') || ' ' ||
+      coalesce(position, ''))
+  ) STORED;
+
+CREATE INDEX idx_profiles_search_vector ON public.profiles USING GIN (search_vector);
+
+-- Leaves are searched by employee name as well, which a generated column
+-- cannot reach, so the vector is maintained by triggers
+ALTER TABLE public.leaves ADD COLUMN search_vector TSVECTOR;
+
+CREATE INDEX idx_leaves_search_vector ON public.leaves USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION public.build_leave_search_vector(_employee_name TEXT, _leave_type public.leave_type, _reason TEXT)
+RETURNS TSVECTOR
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT to_tsvector('simple', coalesce(_employee_name, '') || ' ' || _leave_type::TEXT || ' ' || coalesce(_reason, ''))
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_leave_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.build_leave_search_vector(
+    (SELECT full_name FROM public.profiles WHERE id = NEW.employee_id),
+    NEW.leave_type,
+    NEW.reason
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_leave_search_vector_before_write
+  BEFORE INSERT OR UPDATE OF employee_id, leave_type, reason ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_leave_search_vector();
+
+-- Keep existing leaves findable by the employee's new name after a rename
+CREATE OR REPLACE FUNCTION public.refresh_leave_search_vectors()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.leaves
+  SET search_vector = public.build_leave_search_vector(NEW.full_name, leave_type, reason)
+  WHERE employee_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER refresh_leave_search_vectors_after_rename
+  AFTER UPDATE OF full_name ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.full_name IS DISTINCT FROM NEW.full_name)
+  EXECUTE FUNCTION public.refresh_leave_search_vectors();
+
+UPDATE public.leaves l
+SET search_vector = public.build_leave_search_vector(p.full_name, l.leave_type, l.reason)
+FROM public.profiles p
+WHERE p.id = l.employee_id;
+
+-- Roles pointed only at auth.users, so the API could not embed them in
+-- profile queries. Every role holder has a profile; drop any strays first.
+DELETE FROM public.user_roles ur
+WHERE NOT EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = ur.user_id);
+
+ALTER TABLE public.user_roles
+  ADD CONSTRAINT user_roles_user_id_profiles_fkey
+  FOREIGN KEY (user_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
@@ -0,0 +1,26 @@
+-- count_working_days put LIMIT 1 on the unnested weekend days, so only the
+-- first one (Sunday) was excluded and Saturdays counted as working days.
+-- Limit the settings row first, then unnest all of its weekend days.
+CREATE OR REPLACE FUNCTION public.count_working_days(_start_date DATE, _end_date DATE)
+RETURNS INTEGER
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM generate_series(_start_date, _end_date, INTERVAL '1 day') AS d(day)
+  WHERE EXTRACT(DOW FROM d.day)::INTEGER NOT IN (
+      SELECT unnest(s.weekend_days)
+      FROM (SELECT weekend_days FROM public.work_settings LIMIT 1) s
+    )
+    AND NOT EXISTS (SELECT 1 FROM public.holidays h WHERE h.date = d.day::DATE)
+$$;
+
+-- Correct full-day leaves stored with the wrong count. Requests that turn
+-- out to cover no working days at all are left for HR to review.
+UPDATE public.leaves
+SET days_count = public.count_working_days(start_date, end_date)
+WHERE duration_type = 'full_day'
+  AND days_count <> public.count_working_days(start_date, end_date)
+  AND public.count_working_days(start_date, end_date) > 0;
@@ -0,0 +1,49 @@
+-- The balance check only ran on insert, so a pending request could be edited
+-- afterwards to cover more days than the balance allows. Check edits too.
+CREATE OR REPLACE FUNCTION public.check_leave_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _remaining NUMERIC;
+BEGIN
+  SELECT b.remaining INTO _remaining
+  FROM public.get_leave_balances(NEW.employee_id, EXTRACT(YEAR FROM NEW.start_date)::INTEGER) b
+  WHERE b.leave_type = NEW.leave_type;
+
+  -- No row means a service-role insert (e.g. seeding); those are trusted
+  IF _remaining IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- The balance still counts the row being edited; give its old days back
+  IF TG_OP = 'UPDATE'
+    AND OLD.status IN ('approved', 'pending')
+    AND OLD.leave_type = NEW.leave_type
+    AND EXTRACT(YEAR FROM OLD.start_date) = EXTRACT(YEAR FROM NEW.start_date)
+  THEN
+    _remaining := _remaining + OLD.days_count;
+  END IF;
+
+  IF NEW.days_count > _remaining THEN
+    IF NOT NEW.exceeds_balance THEN
+      RAISE EXCEPTION 'Insufficient % leave balance: % day(s) remaining', NEW.leave_type, _remaining;
+    END IF;
+  ELSE
+    NEW.exceeds_balance := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named so it still fires after calculate_leave_days_before_write
+DROP TRIGGER check_leave_balance_before_insert ON public.leaves;
+
+CREATE TRIGGER check_leave_balance_before_write
+  BEFORE INSERT OR UPDATE OF start_date, end_date, leave_type, duration_type, hours, half_day_period
+  ON public.leaves
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_leave_balance();
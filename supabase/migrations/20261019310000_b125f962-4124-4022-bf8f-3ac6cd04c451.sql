@@ -0,0 +1,39 @@
+-- Withdrawing a request left its approval steps open, so it stayed in the
+-- approvers' queues. Close them the same way offboarding does.
+CREATE OR REPLACE FUNCTION public.withdraw_leave(_leave_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _leave public.leaves%ROWTYPE;
+BEGIN
+  SELECT * INTO _leave FROM public.leaves WHERE id = _leave_id FOR UPDATE;
+
+  IF NOT FOUND OR _leave.employee_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Leave request not found';
+  END IF;
+
+  IF _leave.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be withdrawn';
+  END IF;
+
+  UPDATE public.leave_approvals
+  SET status = 'skipped'
+  WHERE leave_id = _leave_id AND status IN ('waiting', 'pending');
+
+  UPDATE public.leaves SET status = 'cancelled' WHERE id = _leave_id;
+
+  PERFORM public.log_activity(
+    auth.uid(), 'withdrew', 'leave', _leave_id,
+    format('Withdrew %s leave request (%s to %s)', _leave.leave_type, _leave.start_date, _leave.end_date)
+  );
+END;
+$$;
+
+-- Requests withdrawn before this fix
+UPDATE public.leave_approvals
+SET status = 'skipped'
+WHERE status IN ('waiting', 'pending')
+  AND leave_id IN (SELECT id FROM public.leaves WHERE status = 'cancelled');
@@ -0,0 +1,4 @@
+-- Approvers could update leaves directly, bypassing the approval chain.
+-- decide_leave_approval and review_leave_cancellation are the only way to
+-- decide on a request now.
+DROP POLICY "Leave approvers can update all leaves" ON public.leaves;
@@ -0,0 +1,85 @@
+-- Activity log entries can carry sensitive detail such as attendance
+-- correction notes, and were readable by every signed-in user. Limit them to
+-- the people involved and to those who can view employee records.
+DROP POLICY "Users can view all activity logs" ON public.activity_logs;
+
+CREATE POLICY "Users can view activity that involves them"
+  ON public.activity_logs FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (entity_type = 'employee' AND entity_id = auth.uid())
+    OR (entity_type = 'leave' AND public.is_leave_owner(entity_id, auth.uid()))
+    OR (entity_type = 'attendance' AND EXISTS (
+      SELECT 1 FROM public.attendance a WHERE a.id = entity_id AND a.employee_id = auth.uid()
+    ))
+  );
+
+CREATE POLICY "Employee viewers can view all activity logs"
+  ON public.activity_logs FOR SELECT
+  USING (public.has_permission(auth.uid(), 'employee.view'));
+
+-- The termination reason stays on the restricted profile row, out of the feed
+CREATE OR REPLACE FUNCTION public.offboard_employee(
+  _employee_id UUID,
+  _terminated_at DATE,
+  _reason TEXT,
+  _offboarded_by UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO _profile FROM public.profiles WHERE id = _employee_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF _profile.terminated_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Employee has already been offboarded';
+  END IF;
+
+  UPDATE public.profiles
+  SET terminated_at = _terminated_at,
+      termination_reason = btrim(_reason)
+  WHERE id = _employee_id;
+
+  -- Direct reports move up to the departing employee's own manager
+  UPDATE public.profiles
+  SET manager_id = _profile.manager_id
+  WHERE manager_id = _employee_id;
+
+  -- Approval steps routed to them fall back to the admin pool
+  UPDATE public.leave_approvals
+  SET approver_kind = 'admin',
+      approver_id = NULL
+  WHERE approver_id = _employee_id
+    AND status IN ('waiting', 'pending');
+
+  -- Their own open requests are cancelled
+  UPDATE public.leave_approvals
+  SET status = 'skipped'
+  WHERE status IN ('waiting', 'pending')
+    AND leave_id IN (
+      SELECT id FROM public.leaves WHERE employee_id = _employee_id AND status = 'pending'
+    );
+
+  UPDATE public.leaves
+  SET status = 'cancelled'
+  WHERE employee_id = _employee_id AND status = 'pending';
+
+  PERFORM public.log_activity(
+    _offboarded_by, 'offboarded', 'employee', _employee_id,
+    format('Offboarded %s effective %s', _profile.full_name, _terminated_at)
+  );
+END;
+$$;
+
+-- Strip the reason from entries already logged
+UPDATE public.activity_logs
+SET description = regexp_replace(description, '^(Offboarded .* effective \d{4}-\d{2}-\d{2}): .*$', '\1')
+WHERE action = 'offboarded' AND entity_type = 'employee';
@@ -0,0 +1,8 @@
+-- Role assigners could write user_roles directly and skip the last-admin
+-- guard in set_user_role. That function is now the only way to change a
+-- role; edge functions keep using the service role for new employees.
+DROP POLICY "Role assigners can manage roles" ON public.user_roles;
+
+CREATE POLICY "Role assigners can view all roles"
+  ON public.user_roles FOR SELECT
+  USING (public.has_permission(auth.uid(), 'role.assign'));
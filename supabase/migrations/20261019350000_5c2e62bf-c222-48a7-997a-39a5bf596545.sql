@@ -0,0 +1,29 @@
+-- Case-insensitive lookups by email, used by imports
+CREATE INDEX idx_profiles_email_lower ON public.profiles (lower(email));
+
+-- Which of the given addresses already belong to an employee, so an import
+-- can flag duplicates without loading every profile into the browser
+CREATE OR REPLACE FUNCTION public.find_existing_emails(_emails TEXT[])
+RETURNS SETOF TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lower(p.email)
+  FROM public.profiles p
+  WHERE lower(p.email) IN (SELECT lower(e) FROM unnest(_emails) AS e)
+    AND public.has_permission(auth.uid(), 'employee.edit')
+$$;
+
+-- Computed relationship so profile queries can embed the manager's name as
+-- manager(full_name); a self-referencing foreign key is ambiguous to embed
+CREATE OR REPLACE FUNCTION public.manager(public.profiles)
+RETURNS SETOF public.employee_directory
+ROWS 1
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM public.employee_directory WHERE id = $1.manager_id
+$$;
@@ -0,0 +1,5 @@
+-- Employees could still update their own pending leaves directly, e.g.
+-- setting days_count without touching the columns that make the triggers
+-- recalculate it. Requests are only changed through withdraw_leave and
+-- request_leave_cancellation now, so the policy can go.
+DROP POLICY "Employees can update their own pending leaves" ON public.leaves;
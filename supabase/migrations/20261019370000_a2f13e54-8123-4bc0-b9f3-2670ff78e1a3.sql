@@ -0,0 +1,62 @@
+-- Over-balance requests are meant to need an admin override, but the flag did
+-- not affect routing, so a manager-only chain could approve them. Add a leave
+-- approver step to any flagged request whose chain does not already have one.
+CREATE OR REPLACE FUNCTION public.build_leave_approvals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _step RECORD;
+  _manager_id UUID;
+  _order INTEGER := 0;
+  _has_admin_step BOOLEAN := false;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT manager_id INTO _manager_id FROM public.profiles WHERE id = NEW.employee_id;
+
+  FOR _step IN
+    SELECT *
+    FROM public.approval_chain_steps
+    WHERE NEW.days_count > min_days
+      AND (leave_type IS NULL OR leave_type = NEW.leave_type)
+    ORDER BY step_order
+  LOOP
+    -- Employees without a manager skip the manager step
+    CONTINUE WHEN _step.approver_kind = 'manager' AND _manager_id IS NULL;
+
+    _order := _order + 1;
+    _has_admin_step := _has_admin_step OR _step.approver_kind = 'admin';
+    INSERT INTO public.leave_approvals (leave_id, step_order, approver_kind, approver_id, status)
+    VALUES (
+      NEW.id,
+      _order,
+      _step.approver_kind,
+      CASE WHEN _step.approver_kind = 'manager' THEN _manager_id END,
+      CASE WHEN _order = 1 THEN 'pending' ELSE 'waiting' END
+    );
+  END LOOP;
+
+  -- Every request needs at least one reviewer, and an over-balance one a leave approver
+  IF NOT _has_admin_step AND (_order = 0 OR NEW.exceeds_balance) THEN
+    _order := _order + 1;
+    INSERT INTO public.leave_approvals (leave_id, step_order, approver_kind, status)
+    VALUES (NEW.id, _order, 'admin', CASE WHEN _order = 1 THEN 'pending' ELSE 'waiting' END);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Flagged requests already waiting on a manager-only chain
+INSERT INTO public.leave_approvals (leave_id, step_order, approver_kind, status)
+SELECT l.id, MAX(a.step_order) + 1, 'admin', 'waiting'
+FROM public.leaves l
+JOIN public.leave_approvals a ON a.leave_id = l.id
+WHERE l.status = 'pending' AND l.exceeds_balance
+GROUP BY l.id
+HAVING NOT bool_or(a.approver_kind = 'admin');
@@ -0,0 +1,75 @@
+-- Offboarding an admin bypassed the last-admin guard in set_user_role.
+-- Apply the same check, under the same lock, before recording the termination.
+CREATE OR REPLACE FUNCTION public.offboard_employee(
+  _employee_id UUID,
+  _terminated_at DATE,
+  _reason TEXT,
+  _offboarded_by UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO _profile FROM public.profiles WHERE id = _employee_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Employee not found';
+  END IF;
+
+  IF _profile.terminated_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Employee has already been offboarded';
+  END IF;
+
+  -- Serialised with set_user_role so the last two admins cannot remove each other
+  LOCK TABLE public.user_roles IN SHARE ROW EXCLUSIVE MODE;
+
+  IF public.has_role(_employee_id, 'admin') AND NOT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.id = ur.user_id
+    WHERE ur.role = 'admin'
+      AND ur.user_id <> _employee_id
+      AND p.terminated_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Cannot offboard the last remaining admin';
+  END IF;
+
+  UPDATE public.profiles
+  SET terminated_at = _terminated_at,
+      termination_reason = btrim(_reason)
+  WHERE id = _employee_id;
+
+  -- Direct reports move up to the departing employee's own manager
+  UPDATE public.profiles
+  SET manager_id = _profile.manager_id
+  WHERE manager_id = _employee_id;
+
+  -- Approval steps routed to them fall back to the admin pool
+  UPDATE public.leave_approvals
+  SET approver_kind = 'admin',
+      approver_id = NULL
+  WHERE approver_id = _employee_id
+    AND status IN ('waiting', 'pending');
+
+  -- Their own open requests are cancelled
+  UPDATE public.leave_approvals
+  SET status = 'skipped'
+  WHERE status IN ('waiting', 'pending')
+    AND leave_id IN (
+      SELECT id FROM public.leaves WHERE employee_id = _employee_id AND status = 'pending'
+    );
+
+  UPDATE public.leaves
+  SET status = 'cancelled'
+  WHERE employee_id = _employee_id AND status = 'pending';
+
+  PERFORM public.log_activity(
+    _offboarded_by, 'offboarded', 'employee', _employee_id,
+    format('Offboarded %s effective %s', _profile.full_name, _terminated_at)
+  );
+END;
+$$;
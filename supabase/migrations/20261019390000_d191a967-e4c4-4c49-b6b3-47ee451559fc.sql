@@ -0,0 +1,42 @@
+-- Managers, payroll and auditors hold employee.view but have no need for
+-- colleagues' emails, phone numbers or termination reasons. Full profile
+-- rows are now limited to employee editors (admins and HR); everyone else
+-- reads the directory.
+DROP POLICY "Employee viewers can view all profiles" ON public.profiles;
+
+CREATE POLICY "Employee editors can view all profiles"
+  ON public.profiles FOR SELECT
+  USING (public.has_permission(auth.uid(), 'employee.edit'));
+
+-- The employee list searches the directory for non-editors. profiles.search_vector
+-- includes the email address, so the directory gets its own built only from
+-- the columns it already exposes.
+CREATE OR REPLACE VIEW public.employee_directory AS
+SELECT
+  id,
+  full_name,
+  department,
+  department_id,
+  position,
+  manager_id,
+  avatar_url,
+  hire_date,
+  terminated_at,
+  to_tsvector('simple',
+    coalesce(full_name, '') || ' ' ||
+    coalesce(department, '') || ' ' ||
+    coalesce(position, '')
+  ) AS search_vector
+FROM public.profiles
+WHERE auth.uid() IS NOT NULL;
+
+-- Same manager(full_name) embed as on profiles, for directory queries
+CREATE OR REPLACE FUNCTION public.manager(public.employee_directory)
+RETURNS SETOF public.employee_directory
+ROWS 1
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM public.employee_directory WHERE id = $1.manager_id
+$$;
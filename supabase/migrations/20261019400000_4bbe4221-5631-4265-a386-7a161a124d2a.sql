@@ -0,0 +1,16 @@
+-- Active headcount per department, counted in Postgres rather than by
+-- loading every profile (which stops at the API row cap). The row with a
+-- NULL department_id counts employees with no department.
+CREATE OR REPLACE FUNCTION public.get_department_headcounts()
+RETURNS TABLE (department_id UUID, headcount BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.department_id, count(*)
+  FROM public.profiles p
+  WHERE p.terminated_at IS NULL
+    AND public.has_permission(auth.uid(), 'department.manage')
+  GROUP BY p.department_id
+$$;
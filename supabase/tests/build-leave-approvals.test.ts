@@ -0,0 +1,77 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Runs the latest build_leave_approvals trigger against the default chain:
+// the manager first, then a leave approver for requests over five days
+const MIGRATION = resolve(__dirname, '../migrations/20261019370000_a2f13e54-8123-4bc0-b9f3-2670ff78e1a3.sql');
+
+const BOSS = '00000000-0000-0000-0000-000000000001';
+const REPORT = '00000000-0000-0000-0000-000000000002';
+
+describe('build_leave_approvals', () => {
+  const db = new PGlite();
+
+  beforeAll(async () => {
+    await db.exec(`
+      CREATE TABLE public.profiles (id UUID PRIMARY KEY, manager_id UUID);
+      INSERT INTO public.profiles VALUES ('${BOSS}', NULL), ('${REPORT}', '${BOSS}');
+      CREATE TABLE public.approval_chain_steps (step_order INTEGER, approver_kind TEXT, min_days NUMERIC, leave_type TEXT);
+      INSERT INTO public.approval_chain_steps VALUES (1, 'manager', 0, NULL), (2, 'admin', 5, NULL);
+      CREATE TABLE public.leaves (
+        id SERIAL PRIMARY KEY,
+        employee_id UUID NOT NULL,
+        leave_type TEXT NOT NULL DEFAULT 'vacation',
+        days_count NUMERIC(5,2) NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        exceeds_balance BOOLEAN NOT NULL DEFAULT false
+      );
+      CREATE TABLE public.leave_approvals (leave_id INTEGER, step_order INTEGER, approver_kind TEXT, approver_id UUID, status TEXT);
+      -- A flagged request routed by the old trigger, to a manager only
+      INSERT INTO public.leaves (employee_id, days_count, exceeds_balance) VALUES ('${REPORT}', 1, true);
+      INSERT INTO public.leave_approvals VALUES (1, 1, 'manager', '${BOSS}', 'pending');
+      CREATE FUNCTION public.build_leave_approvals() RETURNS TRIGGER LANGUAGE plpgsql AS $$ BEGIN RETURN NEW; END $$;
+      CREATE TRIGGER build_leave_approvals_after_insert
+        AFTER INSERT ON public.leaves FOR EACH ROW EXECUTE FUNCTION public.build_leave_approvals();
+    `);
+    await db.exec(readFileSync(MIGRATION, 'utf8'));
+  });
+
+  afterAll(() => db.close());
+
+  const request = async (employeeId: string, days: number, exceedsBalance: boolean) => {
+    const { rows } = await db.query<{ id: number }>(
+      'INSERT INTO public.leaves (employee_id, days_count, exceeds_balance) VALUES ($1, $2, $3) RETURNING id',
+      [employeeId, days, exceedsBalance]
+    );
+    const steps = await db.query<{ approver_kind: string; status: string }>(
+      'SELECT approver_kind, status FROM public.leave_approvals WHERE leave_id = $1 ORDER BY step_order',
+      [rows[0].id]
+    );
+    return steps.rows.map(step => `${step.approver_kind}:${step.status}`);
+  };
+
+  it('leaves short requests within balance with the manager', async () => {
+    expect(await request(REPORT, 2, false)).toEqual(['manager:pending']);
+  });
+
+  it('adds a leave approver after the manager for over-balance requests', async () => {
+    expect(await request(REPORT, 2, true)).toEqual(['manager:pending', 'admin:waiting']);
+  });
+
+  it('does not add a second leave approver step', async () => {
+    expect(await request(REPORT, 6, true)).toEqual(['manager:pending', 'admin:waiting']);
+  });
+
+  it('sends requests from employees without a manager to the leave approvers', async () => {
+    expect(await request(BOSS, 1, true)).toEqual(['admin:pending']);
+  });
+
+  it('routes flagged requests already waiting on a manager', async () => {
+    const { rows } = await db.query<{ approver_kind: string }>(
+      'SELECT approver_kind FROM public.leave_approvals WHERE leave_id = 1 ORDER BY step_order'
+    );
+    expect(rows.map(row => row.approver_kind)).toEqual(['manager', 'admin']);
+  });
+});
@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// Runs the latest check_leave_balance trigger against a five-day stub balance
+const MIGRATION = resolve(__dirname, '../migrations/20261019300000_0530192f-9815-4d4f-9831-e2d3c0a304c7.sql');
+
+describe('check_leave_balance', () => {
+  const db = new PGlite();
+
+  beforeAll(async () => {
+    await db.exec(`
+      CREATE TABLE public.leaves (
+        id SERIAL PRIMARY KEY,
+        employee_id INTEGER NOT NULL DEFAULT 1,
+        leave_type TEXT NOT NULL DEFAULT 'vacation',
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        days_count NUMERIC(5,2) NOT NULL,
+        duration_type TEXT NOT NULL DEFAULT 'full_day',
+        hours NUMERIC(4,2),
+        half_day_period TEXT,
+        status TEXT NOT NULL DEFAULT 'pending',
+        exceeds_balance BOOLEAN NOT NULL DEFAULT false
+      );
+      CREATE FUNCTION public.get_leave_balances(_employee_id INTEGER, _year INTEGER)
+      RETURNS TABLE (leave_type TEXT, remaining NUMERIC)
+      LANGUAGE SQL
+      AS $$
+        SELECT 'vacation', 5 - COALESCE(SUM(days_count) FILTER (WHERE status IN ('approved', 'pending')), 0)
+        FROM public.leaves
+        WHERE employee_id = _employee_id AND EXTRACT(YEAR FROM start_date) = _year
+      $$;
+      -- The insert-only trigger the migration replaces
+      CREATE FUNCTION public.check_leave_balance() RETURNS TRIGGER LANGUAGE plpgsql AS $$ BEGIN RETURN NEW; END $$;
+      CREATE TRIGGER check_leave_balance_before_insert
+        BEFORE INSERT ON public.leaves FOR EACH ROW EXECUTE FUNCTION public.check_leave_balance();
+    `);
+    await db.exec(readFileSync(MIGRATION, 'utf8'));
+    await db.exec(`INSERT INTO public.leaves (start_date, end_date, days_count) VALUES ('2026-10-05', '2026-10-07', 3)`);
+  });
+
+  afterAll(() => db.close());
+
+  it('lets a pending leave grow up to the remaining balance', async () => {
+    await db.exec(`UPDATE public.leaves SET end_date = '2026-10-09', days_count = 5`);
+    const { rows } = await db.query<{ days_count: string }>('SELECT days_count FROM public.leaves');
+    expect(Number(rows[0].days_count)).toBe(5);
+  });
+
+  it('rejects edits that go past the balance', async () => {
+    await expect(db.exec(`UPDATE public.leaves SET end_date = '2026-10-12', days_count = 6`)).rejects.toThrow(
+      'Insufficient vacation leave balance'
+    );
+  });
+
+  it('still rejects new requests past the balance', async () => {
+    await expect(
+      db.exec(`INSERT INTO public.leaves (start_date, end_date, days_count) VALUES ('2026-10-19', '2026-10-19', 1)`)
+    ).rejects.toThrow('Insufficient vacation leave balance');
+  });
+});
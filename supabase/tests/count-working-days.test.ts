@@ -0,0 +1,58 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { countWorkingDays } from '../../src/lib/leaves';
+
+// Runs the latest count_working_days definition against just the tables it reads
+const MIGRATION = resolve(__dirname, '../migrations/20261019290000_84be37a9-e63d-4b98-bb04-315330630f3d.sql');
+
+describe('count_working_days', () => {
+  const db = new PGlite();
+
+  beforeAll(async () => {
+    await db.exec(`
+      CREATE TABLE public.work_settings (id BOOLEAN PRIMARY KEY DEFAULT true, weekend_days INTEGER[] NOT NULL DEFAULT '{0,6}');
+      INSERT INTO public.work_settings (id) VALUES (true);
+      CREATE TABLE public.holidays (date DATE NOT NULL UNIQUE);
+      CREATE TABLE public.leaves (
+        id SERIAL PRIMARY KEY,
+        start_date DATE NOT NULL,
+        end_date DATE NOT NULL,
+        days_count NUMERIC(5,2) NOT NULL,
+        duration_type TEXT NOT NULL DEFAULT 'full_day'
+      );
+      -- Stored by the old definition, which counted the Saturday
+      INSERT INTO public.leaves (start_date, end_date, days_count) VALUES ('2026-10-16', '2026-10-19', 3);
+    `);
+    await db.exec(readFileSync(MIGRATION, 'utf8'));
+  });
+
+  afterAll(() => db.close());
+
+  const countDays = async (start: string, end: string) => {
+    const { rows } = await db.query<{ days: number }>('SELECT public.count_working_days($1, $2) AS days', [start, end]);
+    return rows[0].days;
+  };
+
+  it('skips Saturdays as well as Sundays', async () => {
+    expect(await countDays('2026-10-16', '2026-10-19')).toBe(2);
+    expect(await countDays('2026-10-17', '2026-10-17')).toBe(0);
+  });
+
+  it('agrees with the client-side preview', async () => {
+    await db.exec(`
+      UPDATE public.work_settings SET weekend_days = '{5,6}';
+      INSERT INTO public.holidays (date) VALUES ('2026-10-14');
+    `);
+
+    for (const [start, end] of [['2026-10-10', '2026-10-25'], ['2026-10-16', '2026-10-19'], ['2026-10-13', '2026-10-15']]) {
+      expect(await countDays(start, end)).toBe(countWorkingDays(start, end, [5, 6], ['2026-10-14']));
+    }
+  });
+
+  it('corrects leaves stored with the wrong count', async () => {
+    const { rows } = await db.query<{ days_count: string }>('SELECT days_count FROM public.leaves');
+    expect(Number(rows[0].days_count)).toBe(2);
+  });
+});